@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { CardIssue, CardIssueCode } from './characterCard';
+
+/**
+ * Card issues notice for the stage UI.
+ *
+ * Lists the character card fields the stage couldn't read, so creators
+ * can see why a show has fewer episodes than expected. Nothing is shown
+ * for cards without issues.
+ */
+
+type CardIssuesProps = {
+    issues: CardIssue[];
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+};
+
+const ISSUE_MESSAGES: Record<CardIssueCode, UiMessageKey> = {
+    notACard: 'cardIssueNotACard',
+    unknownSpec: 'cardIssueUnknownSpec',
+    invalidField: 'cardIssueInvalidField',
+    invalidJson: 'cardIssueInvalidJson',
+    noGreetings: 'cardIssueNoGreetings',
+    noFirstMessage: 'cardIssueNoFirstMessage'
+};
+
+export const CardIssues: React.FC<CardIssuesProps> = ({ issues, theme, t }) => {
+    const [expanded, setExpanded] = useState(false);
+
+    if (issues.length === 0) {
+        return null;
+    }
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                aria-expanded={expanded}
+                style={{
+                    width: '100%',
+                    padding: 0,
+                    border: 'none',
+                    background: 'none',
+                    color: theme.accent,
+                    fontSize: '10px',
+                    fontWeight: 'bold',
+                    textAlign: 'left',
+                    cursor: 'pointer'
+                }}
+            >
+                <span aria-hidden="true">{expanded ? '▾' : '▸'}</span> {t('cardIssues', { count: issues.length })}
+            </button>
+
+            {expanded && (
+                <ul style={{
+                    margin: '6px 0 0',
+                    paddingLeft: '16px',
+                    fontSize: '10px',
+                    color: theme.textMuted
+                }}>
+                    {issues.map((issue, index) => (
+                        <li key={index}>
+                            <span style={{ color: theme.text }}>{issue.characterName ?? issue.characterId}</span>
+                            {': '}
+                            {t(ISSUE_MESSAGES[issue.code], { field: issue.field ?? '', detail: issue.detail ?? '' })}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
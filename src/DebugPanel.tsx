@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import {
+    DEBUG_CATEGORIES,
+    DebugCategory,
+    DebugLogEntry,
+    categoryColor,
+    downloadJson,
+    eventCategory,
+    eventColor,
+    exportDebugLog,
+    redactData
+} from './debugLog';
+import { Trace, exportTrace } from './trace';
+import { Store, useStore } from './store';
+
+/**
+ * Debug panel for the stage UI.
+ *
+ * Shows the stage's lifecycle events newest first, following the stage's
+ * debug log store as events come in. Events can be filtered by category
+ * and expanded one at a time, so event data is only serialized for the
+ * entries being looked at. Message text is redacted
+ * unless the user turns redaction off. The log, and the session trace
+ * when one is being recorded, can be exported as JSON for bug reports,
+ * redacted the same way.
+ */
+
+type DebugPanelProps = {
+    log: Store<DebugLogEntry[]>;
+    redactByDefault: boolean;
+    trace: Trace | null;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    formatTime: (timestamp: number) => string;
+};
+
+export const DebugPanel: React.FC<DebugPanelProps> = ({ log, redactByDefault, trace, theme, t, formatTime }) => {
+    const entries = useStore(log);
+    const [hiddenCategories, setHiddenCategories] = useState<DebugCategory[]>([]);
+    const [expandedIds, setExpandedIds] = useState<number[]>([]);
+    const [redact, setRedact] = useState(redactByDefault);
+
+    const visible = entries.filter(entry => !hiddenCategories.includes(eventCategory(entry.event)));
+
+    const toggleCategory = (category: DebugCategory) => {
+        setHiddenCategories(hiddenCategories.includes(category)
+            ? hiddenCategories.filter(hidden => hidden !== category)
+            : [...hiddenCategories, category]);
+    };
+
+    const toggleEntry = (id: number) => {
+        setExpandedIds(expandedIds.includes(id)
+            ? expandedIds.filter(expanded => expanded !== id)
+            : [...expandedIds, id]);
+    };
+
+    const exportLog = () => {
+        downloadJson(`chubflix-debug-${Date.now()}.json`, exportDebugLog(visible, redact));
+    };
+
+    const saveTrace = () => {
+        if (trace) {
+            downloadJson(`chubflix-trace-${Date.now()}.json`, exportTrace(trace, redact));
+        }
+    };
+
+    const smallButton: React.CSSProperties = {
+        padding: '2px 6px',
+        fontSize: '9px',
+        border: 'none',
+        borderRadius: '3px',
+        cursor: 'pointer',
+        backgroundColor: theme.muted,
+        color: theme.text
+    };
+
+    return (
+        <div style={{
+            flex: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            minHeight: '160px',
+            borderTop: `1px solid ${theme.border}`,
+            paddingTop: '8px'
+        }}>
+            <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                marginBottom: '6px'
+            }}>
+                <span style={{ fontSize: '10px', fontWeight: 'bold', color: theme.textMuted }}>
+                    {t('debugLog', { count: entries.length })}
+                </span>
+                <span style={{ display: 'flex', gap: '4px' }}>
+                    {trace && (
+                        <button onClick={saveTrace} style={smallButton}>
+                            {t('exportTrace')}
+                        </button>
+                    )}
+                    <button
+                        onClick={exportLog}
+                        disabled={visible.length === 0}
+                        style={{ ...smallButton, cursor: visible.length === 0 ? 'default' : 'pointer' }}
+                    >
+                        {t('exportLog')}
+                    </button>
+                </span>
+            </div>
+
+            {/* Category filters */}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '4px' }}>
+                {DEBUG_CATEGORIES.map(category => {
+                    const shown = !hiddenCategories.includes(category);
+                    return (
+                        <button
+                            key={category}
+                            onClick={() => toggleCategory(category)}
+                            aria-pressed={shown}
+                            style={{
+                                padding: '1px 5px',
+                                fontSize: '9px',
+                                fontFamily: 'monospace',
+                                border: `1px solid ${shown ? categoryColor(category) : theme.border}`,
+                                borderRadius: '3px',
+                                cursor: 'pointer',
+                                backgroundColor: 'transparent',
+                                color: shown ? theme.text : theme.textMuted,
+                                opacity: shown ? 1 : 0.6
+                            }}
+                        >
+                            {category}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <label style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                fontSize: '9px',
+                color: theme.textMuted,
+                marginBottom: '6px'
+            }}>
+                <input type="checkbox" checked={redact} onChange={() => setRedact(!redact)} />
+                {t('redactContent')}
+            </label>
+
+            <div style={{
+                flex: 1,
+                overflow: 'auto',
+                backgroundColor: theme.surface,
+                borderRadius: theme.radius,
+                padding: '6px',
+                fontSize: '9px',
+                fontFamily: 'monospace'
+            }}>
+                {visible.length === 0 ? (
+                    <div style={{ color: theme.textMuted, textAlign: 'center', padding: '10px' }}>
+                        {entries.length === 0 ? t('waitingForEvents') : t('noMatchingEvents')}
+                    </div>
+                ) : (
+                    [...visible].reverse().map(entry => {
+                        const expanded = expandedIds.includes(entry.id);
+                        return (
+                            <div
+                                key={entry.id}
+                                style={{
+                                    marginBottom: '4px',
+                                    paddingBottom: '4px',
+                                    borderBottom: `1px solid ${theme.border}`
+                                }}
+                            >
+                                <button
+                                    onClick={() => toggleEntry(entry.id)}
+                                    aria-expanded={expanded}
+                                    style={{
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '4px',
+                                        width: '100%',
+                                        padding: 0,
+                                        border: 'none',
+                                        background: 'none',
+                                        fontFamily: 'inherit',
+                                        fontSize: 'inherit',
+                                        textAlign: 'left',
+                                        cursor: 'pointer'
+                                    }}
+                                >
+                                    <span aria-hidden="true" style={{ color: theme.textMuted }}>{expanded ? '▾' : '▸'}</span>
+                                    <span style={{ color: theme.textMuted }}>
+                                        {formatTime(entry.timestamp)}
+                                    </span>
+                                    <span style={{ color: eventColor(entry.event), fontWeight: 'bold' }}>
+                                        {entry.event}
+                                    </span>
+                                </button>
+                                {expanded && (
+                                    <pre style={{
+                                        margin: '4px 0 0',
+                                        whiteSpace: 'pre-wrap',
+                                        wordBreak: 'break-all',
+                                        color: theme.text,
+                                        lineHeight: '1.3',
+                                        maxHeight: '150px',
+                                        overflow: 'auto'
+                                    }}>
+                                        {JSON.stringify(redact ? redactData(entry.data) : entry.data, null, 1)}
+                                    </pre>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,177 @@
+import React, { useRef, useState } from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { ariaShortcut, useShortcuts } from './shortcuts';
+
+/**
+ * Episode browser for the stage UI.
+ *
+ * Lists every episode with its number, title and watched state, and jumps
+ * to an episode when clicked. Episodes the user hasn't reached yet are
+ * blurred or hidden, depending on the spoiler setting; blurred ones are
+ * kept from screen readers too. Series with
+ * seasons are grouped under season headings. The list opens and closes
+ * with its keyboard shortcut, which also moves focus to it. As a sidebar
+ * it starts open and takes the height it is given.
+ */
+
+export type SpoilerMode = 'blur' | 'hide' | 'off';
+
+export type EpisodeStatus = 'current' | 'watched' | 'unwatched';
+
+export type EpisodeBrowserEntry = {
+    index: number;
+    title: string;
+    synopsis: string | null;
+    season: number | null;
+    /** Number within the season */
+    episodeNumber: number | null;
+    status: EpisodeStatus;
+    /** Not visited yet, so its title and synopsis are spoilers */
+    spoiler: boolean;
+    /** Visited before, or next and unlocked */
+    jumpable: boolean;
+};
+
+type EpisodeBrowserProps = {
+    entries: EpisodeBrowserEntry[];
+    spoilerMode: SpoilerMode;
+    completedSeasons: number[];
+    /** Keyboard shortcut that toggles the list */
+    shortcut: string;
+    /** Shown beside the episode details rather than below them */
+    sidebar: boolean;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    onJump: (index: number) => void;
+};
+
+export const EpisodeBrowser: React.FC<EpisodeBrowserProps> = ({ entries, spoilerMode, completedSeasons, shortcut, sidebar, theme, t, onJump }) => {
+    const [expanded, setExpanded] = useState(sidebar);
+    const toggleRef = useRef<HTMLButtonElement>(null);
+
+    useShortcuts([{
+        shortcut,
+        onPress: () => {
+            setExpanded(!expanded);
+            toggleRef.current?.focus();
+        }
+    }]);
+
+    const statusLabel = (status: EpisodeStatus): string => {
+        if (status === 'current') return t('nowPlaying');
+        if (status === 'watched') return t('watched');
+        return '';
+    };
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <button
+                ref={toggleRef}
+                onClick={() => setExpanded(!expanded)}
+                aria-expanded={expanded}
+                aria-keyshortcuts={ariaShortcut(shortcut)}
+                style={{
+                    width: '100%',
+                    padding: 0,
+                    border: 'none',
+                    background: 'none',
+                    color: theme.textMuted,
+                    fontSize: '10px',
+                    fontWeight: 'bold',
+                    textAlign: 'left',
+                    cursor: 'pointer'
+                }}
+            >
+                <span aria-hidden="true">{expanded ? '▾' : '▸'}</span> {t('episodes')} ({entries.length})
+            </button>
+
+            {expanded && (
+                <div style={{
+                    marginTop: '6px',
+                    maxHeight: sidebar ? 'none' : '200px',
+                    overflow: 'auto',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '4px'
+                }}>
+                    {entries.map((entry, position) => {
+                        const startsSeason = entry.season !== null && entry.season !== entries[position - 1]?.season;
+                        const hidden = entry.spoiler && spoilerMode === 'hide';
+                        const blurred = entry.spoiler && spoilerMode === 'blur';
+                        const isCurrent = entry.status === 'current';
+                        const number = entry.episodeNumber ?? entry.index + 1;
+
+                        return (
+                            <React.Fragment key={entry.index}>
+                                {startsSeason && (
+                                    <div style={{
+                                        fontSize: '9px',
+                                        fontWeight: 'bold',
+                                        letterSpacing: '1px',
+                                        color: theme.textMuted,
+                                        marginTop: position > 0 ? '6px' : 0
+                                    }}>
+                                        {t('seasonHeading', { season: entry.season as number })}
+                                        {completedSeasons.includes(entry.season as number) ? ' ✓' : ''}
+                                    </div>
+                                )}
+                                <button
+                                    onClick={() => onJump(entry.index)}
+                                    disabled={isCurrent || !entry.jumpable}
+                                    aria-label={blurred ? `${number}. ${t('notYetReached')}` : undefined}
+                                    style={{
+                                        display: 'flex',
+                                        gap: '8px',
+                                        alignItems: 'flex-start',
+                                        padding: '6px',
+                                        border: `1px solid ${isCurrent ? theme.accent : theme.border}`,
+                                        borderRadius: theme.radius,
+                                        backgroundColor: theme.surface,
+                                        color: theme.text,
+                                        textAlign: 'left',
+                                        cursor: isCurrent ? 'default' : entry.jumpable ? 'pointer' : 'not-allowed',
+                                        opacity: entry.status === 'unwatched' ? 0.7 : 1
+                                    }}
+                                >
+                                    <span style={{
+                                        fontSize: '11px',
+                                        fontWeight: 'bold',
+                                        color: isCurrent ? theme.accent : theme.textMuted,
+                                        minWidth: '18px'
+                                    }}>
+                                        {number}
+                                    </span>
+                                    <span aria-hidden={blurred || undefined} style={{ flex: 1, minWidth: 0 }}>
+                                        <span style={{
+                                            display: 'block',
+                                            fontSize: '11px',
+                                            fontWeight: 600,
+                                            filter: blurred ? 'blur(4px)' : 'none'
+                                        }}>
+                                            {hidden ? t('notYetReached') : entry.title}
+                                        </span>
+                                        {entry.synopsis && !hidden && (
+                                            <span style={{
+                                                display: 'block',
+                                                fontSize: '10px',
+                                                color: theme.textMuted,
+                                                marginTop: '2px',
+                                                filter: blurred ? 'blur(4px)' : 'none'
+                                            }}>
+                                                {entry.synopsis}
+                                            </span>
+                                        )}
+                                    </span>
+                                    <span style={{ fontSize: '9px', color: theme.textMuted, whiteSpace: 'nowrap' }}>
+                                        {statusLabel(entry.status)}
+                                    </span>
+                                </button>
+                            </React.Fragment>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
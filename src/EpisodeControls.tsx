@@ -0,0 +1,124 @@
+import React from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { ariaShortcut } from './shortcuts';
+import { NavigationState, canGoNext, nextButtonLabel } from './episodeView';
+
+/**
+ * Episode navigation for the stage UI.
+ *
+ * Previous and Next buttons, or the list of branches to pick from when
+ * the current episode has several successors. Next reads Final at an
+ * ending and explains itself while the episode is locked.
+ */
+
+type EpisodeControlsProps = {
+    navigation: NavigationState;
+    shortcutPrevious: string;
+    shortcutNext: string;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    onPrevious: () => void;
+    /** Called with the chosen branch, or no target for the only successor */
+    onNext: (target?: number) => void;
+};
+
+export const EpisodeControls: React.FC<EpisodeControlsProps> = ({ navigation, shortcutPrevious, shortcutNext, theme, t, onPrevious, onNext }) => {
+    const { isFirstEpisode, lockMessage, finished, branches } = navigation;
+    const isBranching = branches.length > 0;
+    const isLocked = lockMessage !== null;
+    const nextDisabled = !canGoNext(navigation);
+
+    return (
+        <>
+            {/* Navigation buttons */}
+            <div style={{
+                display: 'flex',
+                gap: '6px',
+                marginBottom: '12px'
+            }}>
+                <button
+                    onClick={onPrevious}
+                    disabled={isFirstEpisode}
+                    aria-label={t('previousEpisode')}
+                    aria-keyshortcuts={ariaShortcut(shortcutPrevious)}
+                    style={{
+                        flex: 1,
+                        padding: '8px',
+                        fontSize: '11px',
+                        fontWeight: '600',
+                        border: 'none',
+                        borderRadius: theme.radius,
+                        cursor: isFirstEpisode ? 'not-allowed' : 'pointer',
+                        backgroundColor: isFirstEpisode ? theme.muted : theme.accent,
+                        color: theme.accentText,
+                        opacity: isFirstEpisode ? 0.5 : 1
+                    }}
+                >
+                    {t('prev')}
+                </button>
+
+                {!isBranching && (
+                    <button
+                        onClick={() => onNext()}
+                        disabled={nextDisabled}
+                        aria-label={nextDisabled || navigation.isLastEpisode || navigation.buttonText ? undefined : t('nextEpisode')}
+                        aria-keyshortcuts={ariaShortcut(shortcutNext)}
+                        style={{
+                            flex: 2,
+                            padding: '8px',
+                            fontSize: '11px',
+                            fontWeight: '600',
+                            border: 'none',
+                            borderRadius: theme.radius,
+                            cursor: nextDisabled ? 'not-allowed' : 'pointer',
+                            backgroundColor: nextDisabled ? theme.muted : theme.accent,
+                            color: theme.accentText,
+                            opacity: nextDisabled ? 0.5 : 1,
+                            boxShadow: finished ? `0 0 0 2px ${theme.background}, 0 0 0 4px ${theme.accent}` : 'none'
+                        }}
+                    >
+                        {nextButtonLabel(navigation, t)}
+                    </button>
+                )}
+            </div>
+
+            {/* Branch choice */}
+            {isBranching && (
+                <div style={{ marginBottom: '12px' }}>
+                    <div style={{
+                        fontSize: '10px',
+                        fontWeight: 'bold',
+                        color: theme.textMuted,
+                        marginBottom: '6px'
+                    }}>
+                        {lockMessage ?? t('chooseNext')}
+                    </div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                        {branches.map(branch => (
+                            <button
+                                key={branch.index}
+                                onClick={() => onNext(branch.index)}
+                                disabled={isLocked}
+                                style={{
+                                    padding: '8px',
+                                    fontSize: '11px',
+                                    fontWeight: '600',
+                                    border: 'none',
+                                    borderRadius: theme.radius,
+                                    cursor: isLocked ? 'not-allowed' : 'pointer',
+                                    backgroundColor: isLocked ? theme.muted : theme.accent,
+                                    color: theme.accentText,
+                                    opacity: isLocked ? 0.5 : 1,
+                                    textAlign: 'left'
+                                }}
+                            >
+                                {branch.title} →
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,142 @@
+import React from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { EpisodeDetailsState, episodeLabel } from './episodeView';
+
+/**
+ * Current episode details for the stage UI.
+ *
+ * The series and its episode count, the episode's title and synopsis,
+ * its number, and the progress bars: per season when the series has
+ * seasons, with the overall progress as a thinner bar below.
+ */
+
+type EpisodeDetailsProps = {
+    details: EpisodeDetailsState;
+    /** Show the episode complete call to action */
+    finished: boolean;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+};
+
+export const EpisodeDetails: React.FC<EpisodeDetailsProps> = ({ details, finished, theme, t }) => {
+    const { position, total, season } = details;
+
+    return (
+        <>
+            {/* Header */}
+            <div style={{
+                fontSize: '10px',
+                textTransform: 'uppercase',
+                letterSpacing: '1px',
+                color: theme.textMuted,
+                marginBottom: '4px'
+            }}>
+                {details.series} · {t('episodeCount', { count: details.episodeCount })}
+            </div>
+
+            {/* Episode title */}
+            <div style={{
+                fontSize: '14px',
+                fontWeight: 'bold',
+                marginBottom: '8px',
+                lineHeight: '1.3'
+            }}>
+                {details.title}
+            </div>
+
+            {/* Episode synopsis (manifest only) */}
+            {details.synopsis && (
+                <div style={{
+                    fontSize: '11px',
+                    color: theme.textMuted,
+                    marginBottom: '8px',
+                    lineHeight: '1.4'
+                }}>
+                    {details.synopsis}
+                </div>
+            )}
+
+            {/* Episode number & progress */}
+            {details.showEpisodeNumber && (
+                <div style={{
+                    fontSize: '12px',
+                    opacity: 0.8,
+                    marginBottom: '8px'
+                }}>
+                    {episodeLabel(details, t)}
+                    {season && (
+                        <div style={{ fontSize: '10px', color: theme.textMuted, marginTop: '2px' }}>
+                            {t('overallEpisodeOf', { current: position, total })}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {details.showProgress && (
+                <div style={{ marginBottom: '12px' }}>
+                    {/* Season progress, with overall progress as a thinner bar below */}
+                    {season && (
+                        <div
+                            role="progressbar"
+                            aria-label={t('seasonProgressLabel', { season: season.season })}
+                            aria-valuemin={0}
+                            aria-valuemax={season.total}
+                            aria-valuenow={season.position}
+                            aria-valuetext={t('seasonEpisode', { season: season.season, episode: details.episodeNumber })}
+                            style={{
+                                height: '3px',
+                                backgroundColor: theme.progressTrack,
+                                borderRadius: '2px',
+                                overflow: 'hidden',
+                                marginBottom: '3px'
+                            }}
+                        >
+                            <div style={{
+                                height: '100%',
+                                width: `${(season.position / season.total) * 100}%`,
+                                backgroundColor: theme.accent,
+                                borderRadius: '2px',
+                                transition: 'width 0.3s ease'
+                            }} />
+                        </div>
+                    )}
+                    <div
+                        role="progressbar"
+                        aria-label={t('progressLabel')}
+                        aria-valuemin={0}
+                        aria-valuemax={total}
+                        aria-valuenow={position}
+                        aria-valuetext={t(season ? 'overallEpisodeOf' : 'episodeOf', { current: position, total })}
+                        style={{
+                            height: season ? '2px' : '3px',
+                            backgroundColor: theme.progressTrack,
+                            borderRadius: '2px',
+                            overflow: 'hidden'
+                        }}
+                    >
+                        <div style={{
+                            height: '100%',
+                            width: `${(position / total) * 100}%`,
+                            backgroundColor: season ? theme.textMuted : theme.accent,
+                            borderRadius: '2px',
+                            transition: 'width 0.3s ease'
+                        }} />
+                    </div>
+                </div>
+            )}
+
+            {/* Episode complete call to action */}
+            {finished && (
+                <div style={{
+                    fontSize: '11px',
+                    fontWeight: 'bold',
+                    color: theme.accent,
+                    marginBottom: '6px'
+                }}>
+                    ✓ {t('episodeComplete')}
+                </div>
+            )}
+        </>
+    );
+};
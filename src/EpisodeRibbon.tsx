@@ -0,0 +1,88 @@
+import React from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { ariaShortcut } from './shortcuts';
+import { EpisodeDetailsState, NavigationState, canGoNext, episodeLabel, nextButtonLabel } from './episodeView';
+
+/**
+ * Ribbon layout for the stage UI.
+ *
+ * The episode title and number and the Next button in a single row, for
+ * stages placed in a short strip. Branches are offered as one button
+ * each in place of Next, and a compact Up Next teaser sits before it.
+ */
+
+type EpisodeRibbonProps = {
+    details: EpisodeDetailsState;
+    navigation: NavigationState;
+    shortcutNext: string;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    onNext: (target?: number) => void;
+    /** Shown between the title and the Next button */
+    upNext?: React.ReactNode;
+};
+
+export const EpisodeRibbon: React.FC<EpisodeRibbonProps> = ({ details, navigation, shortcutNext, theme, t, onNext, upNext }) => {
+    const isBranching = navigation.branches.length > 0;
+    const nextDisabled = !canGoNext(navigation);
+
+    const buttonStyle: React.CSSProperties = {
+        flexShrink: 0,
+        maxWidth: isBranching ? '120px' : '50%',
+        padding: '6px 12px',
+        fontSize: '11px',
+        fontWeight: '600',
+        border: 'none',
+        borderRadius: theme.radius,
+        cursor: nextDisabled ? 'not-allowed' : 'pointer',
+        backgroundColor: nextDisabled ? theme.muted : theme.accent,
+        color: theme.accentText,
+        opacity: nextDisabled ? 0.5 : 1,
+        whiteSpace: 'nowrap',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        boxShadow: navigation.finished ? `0 0 0 2px ${theme.background}, 0 0 0 4px ${theme.accent}` : 'none'
+    };
+
+    return (
+        <>
+            <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{
+                    fontSize: '12px',
+                    fontWeight: 'bold',
+                    whiteSpace: 'nowrap',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis'
+                }}>
+                    {details.title}
+                </div>
+                <div style={{ fontSize: '10px', color: theme.textMuted, whiteSpace: 'nowrap' }}>
+                    {episodeLabel(details, t)}
+                </div>
+            </div>
+            {upNext}
+            {isBranching ? navigation.branches.map(branch => (
+                <button
+                    key={branch.index}
+                    onClick={() => onNext(branch.index)}
+                    disabled={nextDisabled}
+                    title={branch.title}
+                    style={buttonStyle}
+                >
+                    {branch.title} →
+                </button>
+            )) : (
+                <button
+                    onClick={() => onNext()}
+                    disabled={nextDisabled}
+                    aria-label={nextDisabled || navigation.isLastEpisode || navigation.buttonText ? undefined : t('nextEpisode')}
+                    aria-keyshortcuts={ariaShortcut(shortcutNext)}
+                    style={buttonStyle}
+                >
+                    {nextButtonLabel(navigation, t)}
+                </button>
+            )}
+        </>
+    );
+};
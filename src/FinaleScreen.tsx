@@ -0,0 +1,159 @@
+import React from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { Playthrough } from './playthroughs';
+import { formatDuration } from './stats';
+
+/**
+ * Finale view for the stage UI.
+ *
+ * Rolls end credits once a playthrough reaches an ending: the series
+ * title, the episodes watched along the way with the time spent in each,
+ * and the earlier playthroughs. Offers to rewatch from the first episode,
+ * which the stage starts as a new playthrough. The compact variant fits
+ * the ribbon: the closing line and the rewatch button in one row.
+ */
+
+export type FinaleEntry = {
+    index: number;
+    title: string;
+    /** Time spent in the episode, when known */
+    timeSpent: number | null;
+};
+
+type FinaleScreenProps = {
+    series: string;
+    /** 1-based number of the playthrough that just ended */
+    playthroughNumber: number;
+    path: FinaleEntry[];
+    /** Earlier playthroughs, oldest first */
+    earlier: Playthrough[];
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    formatDate: (timestamp: number) => string;
+    onRewatch: () => void;
+    compact?: boolean;
+};
+
+export const FinaleScreen: React.FC<FinaleScreenProps> = ({ series, playthroughNumber, path, earlier, theme, t, formatDate, onRewatch, compact = false }) => {
+    const date = (timestamp: number | null) => timestamp !== null ? formatDate(timestamp) : '?';
+
+    if (compact) {
+        return (
+            <>
+                <div style={{ flex: 1, minWidth: 0, display: 'flex', alignItems: 'baseline', gap: '8px' }}>
+                    <span style={{ flexShrink: 0, fontSize: '12px', fontWeight: 'bold', letterSpacing: '2px', color: theme.accent }}>
+                        {t('finaleTheEnd')}
+                    </span>
+                    <span style={{ minWidth: 0, fontSize: '11px', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                        {t('finaleComplete', { series })}
+                    </span>
+                </div>
+                <button
+                    onClick={onRewatch}
+                    style={{
+                        flexShrink: 0,
+                        padding: '6px 12px',
+                        fontSize: '11px',
+                        fontWeight: '600',
+                        border: 'none',
+                        borderRadius: theme.radius,
+                        cursor: 'pointer',
+                        backgroundColor: theme.accent,
+                        color: theme.accentText,
+                        whiteSpace: 'nowrap'
+                    }}
+                >
+                    {t('rewatch')}
+                </button>
+            </>
+        );
+    }
+
+    return (
+        <div style={{
+            marginBottom: '12px',
+            padding: '12px',
+            borderRadius: theme.radius,
+            border: `1px solid ${theme.border}`,
+            backgroundColor: theme.surface,
+            textAlign: 'center'
+        }}>
+            <div style={{ fontSize: '16px', fontWeight: 'bold', letterSpacing: '4px', color: theme.accent }}>
+                {t('finaleTheEnd')}
+            </div>
+            <div style={{ fontSize: '11px', marginTop: '4px' }}>
+                {t('finaleComplete', { series })}
+            </div>
+            {playthroughNumber > 1 && (
+                <div style={{ fontSize: '10px', color: theme.textMuted, marginTop: '2px' }}>
+                    {t('playthrough', { number: playthroughNumber })}
+                </div>
+            )}
+
+            <div style={{
+                fontSize: '9px',
+                fontWeight: 'bold',
+                textTransform: 'uppercase',
+                letterSpacing: '1px',
+                color: theme.textMuted,
+                marginTop: '10px',
+                marginBottom: '4px'
+            }}>
+                {t('finalePath')}
+            </div>
+            <div style={{ maxHeight: '140px', overflow: 'auto', fontSize: '11px', lineHeight: '1.6' }}>
+                {path.map((entry, position) => (
+                    <div key={`${position}-${entry.index}`}>
+                        {entry.title}
+                        {entry.timeSpent !== null && (
+                            <span style={{ color: theme.textMuted }}> · {formatDuration(entry.timeSpent, t)}</span>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {earlier.length > 0 && (
+                <>
+                    <div style={{
+                        fontSize: '9px',
+                        fontWeight: 'bold',
+                        textTransform: 'uppercase',
+                        letterSpacing: '1px',
+                        color: theme.textMuted,
+                        marginTop: '10px',
+                        marginBottom: '4px'
+                    }}>
+                        {t('earlierPlaythroughs')}
+                    </div>
+                    {earlier.map((playthrough, index) => (
+                        <div key={index} style={{ fontSize: '10px', color: theme.textMuted }}>
+                            {t('playthrough', { number: index + 1 })}: {t(
+                                playthrough.completed ? 'playthroughFinished' : 'playthroughUnfinished',
+                                { start: date(playthrough.startedAt), end: date(playthrough.endedAt) }
+                            )}
+                        </div>
+                    ))}
+                </>
+            )}
+
+            <button
+                onClick={onRewatch}
+                style={{
+                    marginTop: '12px',
+                    width: '100%',
+                    padding: '8px',
+                    fontSize: '11px',
+                    fontWeight: '600',
+                    border: 'none',
+                    borderRadius: theme.radius,
+                    cursor: 'pointer',
+                    backgroundColor: theme.accent,
+                    color: theme.accentText
+                }}
+            >
+                {t('rewatch')}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { InjectionTarget } from './contextTemplate';
+
+/**
+ * Injection preview for the stage UI.
+ *
+ * Shows the text the stage will add to the next prompt, rendered from
+ * the context template for the current episode, and where it will go.
+ */
+
+type InjectionPreviewProps = {
+    /** Null when nothing will be injected */
+    text: string | null;
+    target: InjectionTarget;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+};
+
+export const InjectionPreview: React.FC<InjectionPreviewProps> = ({ text, target, theme, t }) => {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                aria-expanded={expanded}
+                style={{
+                    width: '100%',
+                    padding: 0,
+                    border: 'none',
+                    background: 'none',
+                    color: theme.accent,
+                    fontSize: '10px',
+                    fontWeight: 'bold',
+                    textAlign: 'left',
+                    cursor: 'pointer'
+                }}
+            >
+                <span aria-hidden="true">{expanded ? '▾' : '▸'}</span> {t('injectionPreview')}
+            </button>
+
+            {expanded && (
+                <div style={{ marginTop: '6px', fontSize: '10px', color: theme.textMuted }}>
+                    {text !== null ? (
+                        <>
+                            <div style={{ marginBottom: '4px' }}>
+                                {t(target === 'message' ? 'injectionTargetMessage' : 'injectionTargetSystem')}
+                            </div>
+                            <pre style={{
+                                margin: 0,
+                                padding: '6px',
+                                borderRadius: theme.radius,
+                                background: theme.surface,
+                                color: theme.text,
+                                fontFamily: 'monospace',
+                                whiteSpace: 'pre-wrap',
+                                wordBreak: 'break-word'
+                            }}>
+                                {text}
+                            </pre>
+                        </>
+                    ) : (
+                        <div style={{ fontStyle: 'italic' }}>{t('injectionNothing')}</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,18 @@
+import React from 'react';
+import { ShortcutBinding, useShortcuts } from './shortcuts';
+
+/**
+ * Keyboard shortcuts for the stage UI.
+ *
+ * Renders nothing; listens for the given shortcuts for as long as it is
+ * mounted, so keys can be bound right where the layout is rendered.
+ */
+
+type KeyboardShortcutsProps = {
+    bindings: ShortcutBinding[];
+};
+
+export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({ bindings }) => {
+    useShortcuts(bindings);
+    return null;
+};
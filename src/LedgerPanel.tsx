@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { LEDGER_KINDS, LedgerEntry, LedgerKind } from './continuity';
+
+/**
+ * Continuity ledger panel for the stage UI.
+ *
+ * Lists the people, places, items and promises picked up from the chat,
+ * grouped by kind, and lets the user correct, remove and add entries.
+ * Changes are handed back to the stage, which persists them in chat state.
+ */
+
+type LedgerPanelProps = {
+    entries: LedgerEntry[];
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    onAdd: (kind: LedgerKind, text: string) => void;
+    onEdit: (id: string, text: string) => void;
+    onRemove: (id: string) => void;
+};
+
+const KIND_LABELS: Record<LedgerKind, UiMessageKey> = {
+    person: 'ledgerPeople',
+    place: 'ledgerPlaces',
+    item: 'ledgerItems',
+    promise: 'ledgerPromises'
+};
+
+export const LedgerPanel: React.FC<LedgerPanelProps> = ({ entries, theme, t, onAdd, onEdit, onRemove }) => {
+    const [expanded, setExpanded] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const [newKind, setNewKind] = useState<LedgerKind>('person');
+    const [newText, setNewText] = useState('');
+
+    const startEditing = (entry: LedgerEntry) => {
+        setEditingId(entry.id);
+        setDraft(entry.text);
+    };
+
+    const save = () => {
+        if (editingId !== null) {
+            onEdit(editingId, draft);
+        }
+        setEditingId(null);
+    };
+
+    const add = () => {
+        if (newText.trim().length === 0) return;
+        onAdd(newKind, newText);
+        setNewText('');
+    };
+
+    const smallButton: React.CSSProperties = {
+        padding: '2px 6px',
+        fontSize: '9px',
+        border: 'none',
+        borderRadius: '3px',
+        cursor: 'pointer',
+        backgroundColor: theme.muted,
+        color: theme.text
+    };
+
+    const input: React.CSSProperties = {
+        padding: '2px 4px',
+        fontSize: '11px',
+        fontFamily: 'inherit',
+        backgroundColor: theme.surface,
+        color: theme.text,
+        border: `1px solid ${theme.border}`,
+        borderRadius: '3px'
+    };
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                aria-expanded={expanded}
+                style={{
+                    width: '100%',
+                    padding: 0,
+                    border: 'none',
+                    background: 'none',
+                    color: theme.textMuted,
+                    fontSize: '10px',
+                    fontWeight: 'bold',
+                    textAlign: 'left',
+                    cursor: 'pointer'
+                }}
+            >
+                <span aria-hidden="true">{expanded ? '▾' : '▸'}</span> {t('continuity')} ({entries.length})
+            </button>
+
+            {expanded && (
+                <div style={{ marginTop: '6px', maxHeight: '200px', overflow: 'auto', fontSize: '11px' }}>
+                    {entries.length === 0 && (
+                        <div style={{ color: theme.textMuted, fontStyle: 'italic', marginBottom: '6px' }}>
+                            {t('ledgerEmpty')}
+                        </div>
+                    )}
+
+                    {LEDGER_KINDS.map(kind => {
+                        const group = entries.filter(entry => entry.kind === kind);
+                        if (group.length === 0) return null;
+                        return (
+                            <div key={kind} style={{ marginBottom: '8px' }}>
+                                <div style={{ fontWeight: 'bold', marginBottom: '2px' }}>{t(KIND_LABELS[kind])}</div>
+                                {group.map(entry => (
+                                    <div key={entry.id} style={{ marginBottom: '4px' }}>
+                                        {editingId === entry.id ? (
+                                            <div style={{ display: 'flex', gap: '4px' }}>
+                                                <input
+                                                    value={draft}
+                                                    onChange={(e) => setDraft(e.target.value)}
+                                                    onKeyDown={(e) => e.key === 'Enter' && save()}
+                                                    style={{ ...input, flex: 1, minWidth: 0 }}
+                                                />
+                                                <button onClick={save} style={{ ...smallButton, backgroundColor: theme.accent, color: theme.accentText }}>
+                                                    {t('save')}
+                                                </button>
+                                                <button onClick={() => setEditingId(null)} style={smallButton}>
+                                                    {t('cancel')}
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                                                <span style={{ flex: 1, color: theme.textMuted, lineHeight: '1.4' }}>
+                                                    {entry.text}{entry.edited ? ` ${t('edited')}` : ''}
+                                                </span>
+                                                <button onClick={() => startEditing(entry)} style={smallButton}>
+                                                    {t('edit')}
+                                                </button>
+                                                <button onClick={() => onRemove(entry.id)} style={smallButton}>
+                                                    {t('ledgerRemove')}
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        );
+                    })}
+
+                    <div style={{ display: 'flex', gap: '4px' }}>
+                        <select
+                            value={newKind}
+                            onChange={(e) => setNewKind(e.target.value as LedgerKind)}
+                            style={input}
+                        >
+                            {LEDGER_KINDS.map(kind => (
+                                <option key={kind} value={kind}>{t(KIND_LABELS[kind])}</option>
+                            ))}
+                        </select>
+                        <input
+                            value={newText}
+                            onChange={(e) => setNewText(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && add()}
+                            style={{ ...input, flex: 1, minWidth: 0 }}
+                        />
+                        <button onClick={add} style={smallButton}>
+                            {t('ledgerAdd')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+
+/**
+ * "Previously on..." panel for the stage UI.
+ *
+ * Lists the recaps of finished episodes and lets the user correct them.
+ * Saved edits are handed back to the stage, which persists them in chat state.
+ */
+
+export type RecapPanelEntry = {
+    index: number;
+    title: string;
+    text: string;
+    edited: boolean;
+};
+
+type RecapPanelProps = {
+    entries: RecapPanelEntry[];
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    onSave: (index: number, text: string) => void;
+};
+
+export const RecapPanel: React.FC<RecapPanelProps> = ({ entries, theme, t, onSave }) => {
+    const [expanded, setExpanded] = useState(false);
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    const [draft, setDraft] = useState('');
+
+    if (entries.length === 0) {
+        return null;
+    }
+
+    const startEditing = (entry: RecapPanelEntry) => {
+        setEditingIndex(entry.index);
+        setDraft(entry.text);
+    };
+
+    const save = () => {
+        if (editingIndex !== null) {
+            onSave(editingIndex, draft.trim());
+        }
+        setEditingIndex(null);
+    };
+
+    const smallButton: React.CSSProperties = {
+        padding: '2px 6px',
+        fontSize: '9px',
+        border: 'none',
+        borderRadius: '3px',
+        cursor: 'pointer',
+        backgroundColor: theme.muted,
+        color: theme.text
+    };
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                aria-expanded={expanded}
+                style={{
+                    width: '100%',
+                    padding: 0,
+                    border: 'none',
+                    background: 'none',
+                    color: theme.textMuted,
+                    fontSize: '10px',
+                    fontWeight: 'bold',
+                    textAlign: 'left',
+                    cursor: 'pointer'
+                }}
+            >
+                <span aria-hidden="true">{expanded ? '▾' : '▸'}</span> {t('previouslyOn')} ({entries.length})
+            </button>
+
+            {expanded && (
+                <div style={{ marginTop: '6px', maxHeight: '160px', overflow: 'auto' }}>
+                    {entries.map(entry => (
+                        <div key={entry.index} style={{ marginBottom: '8px', fontSize: '11px' }}>
+                            <div style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                alignItems: 'center',
+                                marginBottom: '2px'
+                            }}>
+                                <span style={{ fontWeight: 'bold' }}>
+                                    {entry.title}{entry.edited ? ` ${t('edited')}` : ''}
+                                </span>
+                                {editingIndex !== entry.index && (
+                                    <button onClick={() => startEditing(entry)} style={smallButton}>
+                                        {t('edit')}
+                                    </button>
+                                )}
+                            </div>
+
+                            {editingIndex === entry.index ? (
+                                <div>
+                                    <textarea
+                                        value={draft}
+                                        onChange={(e) => setDraft(e.target.value)}
+                                        style={{
+                                            width: '100%',
+                                            minHeight: '60px',
+                                            padding: '4px',
+                                            fontSize: '11px',
+                                            fontFamily: 'inherit',
+                                            backgroundColor: theme.surface,
+                                            color: theme.text,
+                                            border: `1px solid ${theme.border}`,
+                                            borderRadius: '3px',
+                                            resize: 'vertical'
+                                        }}
+                                    />
+                                    <div style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+                                        <button onClick={save} style={{ ...smallButton, backgroundColor: theme.accent, color: theme.accentText }}>
+                                            {t('save')}
+                                        </button>
+                                        <button onClick={() => setEditingIndex(null)} style={smallButton}>
+                                            {t('cancel')}
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div style={{ color: theme.textMuted, lineHeight: '1.4' }}>
+                                    {entry.text}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
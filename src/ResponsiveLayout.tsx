@@ -0,0 +1,41 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LayoutMode, LayoutSetting, chooseLayout, isLayoutMode } from './layout';
+
+/**
+ * Responsive container for the stage UI.
+ *
+ * Fills the space the stage is given, measures it as it resizes, and
+ * renders its children for the layout that fits. A fixed layout setting
+ * skips the measuring.
+ */
+
+type ResponsiveLayoutProps = {
+    setting: LayoutSetting;
+    children: (layout: LayoutMode) => React.ReactNode;
+};
+
+export const ResponsiveLayout: React.FC<ResponsiveLayoutProps> = ({ setting, children }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Only the layout is kept, so resizing within one layout doesn't re-render
+    const [measured, setMeasured] = useState<LayoutMode>(chooseLayout('auto', null));
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (isLayoutMode(setting) || !container || typeof ResizeObserver === 'undefined') return;
+
+        const observer = new ResizeObserver(([entry]) => {
+            const { width, height } = entry.contentRect;
+            setMeasured(chooseLayout('auto', { width, height }));
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [setting]);
+
+    const layout = isLayoutMode(setting) ? setting : measured;
+
+    return (
+        <div ref={containerRef} data-layout={layout} style={{ width: '100%', height: '100%' }}>
+            {children(layout)}
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+
+/**
+ * Series picker for the stage UI.
+ *
+ * In group chats where each character keeps their own series, switches
+ * between them. Renders nothing when there is only one series.
+ */
+
+export type SeriesPickerTrack = {
+    id: string;
+    name: string;
+};
+
+type SeriesPickerProps = {
+    tracks: SeriesPickerTrack[];
+    activeTrack: string;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    onSwitch: (track: string) => void;
+};
+
+export const SeriesPicker: React.FC<SeriesPickerProps> = ({ tracks, activeTrack, theme, t, onSwitch }) => {
+    if (tracks.length <= 1) return null;
+
+    return (
+        <div style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: '4px',
+            marginBottom: '8px'
+        }}>
+            <span style={{ fontSize: '9px', fontWeight: 'bold', color: theme.textMuted, marginRight: '2px' }}>
+                {t('series')}
+            </span>
+            {tracks.map(track => {
+                const isActive = track.id === activeTrack;
+                return (
+                    <button
+                        key={track.id}
+                        onClick={() => onSwitch(track.id)}
+                        disabled={isActive}
+                        aria-pressed={isActive}
+                        style={{
+                            padding: '2px 8px',
+                            border: `1px solid ${isActive ? theme.accent : theme.border}`,
+                            borderRadius: '10px',
+                            backgroundColor: isActive ? theme.accent : 'transparent',
+                            color: isActive ? theme.accentText : theme.text,
+                            fontSize: '10px',
+                            cursor: isActive ? 'default' : 'pointer'
+                        }}
+                    >
+                        {track.name}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
@@ -4,15 +4,49 @@ import {
     LoadResponse,
     StageBase,
     StageResponse,
-    Message,
-    Character
+    Message
 } from "@chub-ai/stages-ts";
+import { Episode } from './manifest';
+import { EpisodeRecap, buildRecap, formatPreviouslyOn, recordTranscript, rewindTranscript } from './recap';
+import { EpisodeStatus, SpoilerMode } from './EpisodeBrowser';
+import { EpisodeGraph, pathProgress, reconcilePath } from './episodeGraph';
+import { completedSeasons, seasonProgress } from './seasons';
+import { GroupMode, Track, buildTracks } from './tracks';
+import { CardIssue, normalizeCharacters } from './characterCard';
+import { InjectionTarget, TemplateValues, renderTemplate } from './contextTemplate';
+import { formatLore, hasLore, matchLoreEntries } from './lore';
+import { Ledger, LedgerSource, addLedgerEntry, editLedgerEntry, emptyLedger, formatLedger, recordMessage, removeLedgerEntry, restartLedger } from './continuity';
+import { ViewingStats, mostRevisited, recordBotMessage, recordSwipe, recordTime, recordUserMessage, recordVisit, totalWatchTime } from './stats';
+import { StatsPanelEntry } from './StatsPanel';
+import { Playthrough, completePlaythrough, currentPlaythrough, restartPlaythrough, restorePlaythroughs, trackPath } from './playthroughs';
+import { LayoutSetting } from './layout';
+import { UpNext, countdownSeconds } from './upNext';
+import { UnlockProgress, UnlockStatus, evaluateUnlock, nextTimeChange, recordExchange, startProgress } from './unlock';
+import { DEFAULT_END_MARKERS, detectEndMarker, parseEndMarkers } from './endMarkers';
+import { ThemeTokens, THEMES, readCardTheme, resolveTheme } from './themes';
+import { DEFAULT_DEBUG_BUFFER_SIZE, DebugLogEntry } from './debugLog';
+import { Store, createStore } from './store';
+import { StageSnapshot, StageView } from './StageView';
+import { StageAction, Trace, TraceStep, recordStep, startTrace } from './trace';
+import {
+    LocaleSetting,
+    PromptMessageKey,
+    Translate,
+    UiMessageKey,
+    browserLanguage,
+    createPromptTranslator,
+    createUiTranslator,
+    resolveLocale
+} from './i18n';
 
 /**
- * Chubflix Next Episode Stage - Debug Version
- * 
- * This version captures and displays all data received from ChubAI
- * during stage lifecycle events for debugging purposes.
+ * Chubflix Next Episode Stage
+ *
+ * Turns a character's greetings into a series of episodes: tracks the
+ * episode being watched, injects its context into the prompt and shows
+ * the episode panel. The debug panel, which logs the data received in
+ * each lifecycle event, is off in production; it is shown in
+ * development or when `showDebug` is on.
  */
 
 // ===== TYPE DEFINITIONS =====
@@ -20,35 +54,145 @@ import {
 type InitStateType = {
     totalEpisodes: number;
     characterName: string;
-    episodeTitles: string[];
+    episodes: Episode[];
 };
 
-type MessageStateType = {
+export type MessageStateType = {
     currentEpisode: number;
     startedAt: number;
+    // Progress towards the current episode's unlock rules
+    unlockProgress?: UnlockProgress;
+    // Set once the bot has written an end-of-episode marker
+    episodeFinished?: boolean;
+    // The bot reply as kept for the recap, so swiping back to it can restore it
+    reply?: string;
+    // Replies recorded in the episode by this message, so jumping back can drop the later ones
+    replyCount?: number;
+    // Track the episode belongs to
+    track?: string;
     // Store debug data in message state so it persists
     lastEvent?: string;
     lastData?: unknown;
 };
 
-type ChatStateType = {
+// Progress through one character's series
+type TrackState = {
     highestEpisodeReached: number;
-    completed: boolean;
+    // Every episode entered, in index order (missing in older saves)
+    visited?: number[];
+    // Every run through the series, the current one last (older saves have a `completed` flag instead)
+    playthroughs: Playthrough[];
+    // Episode indices from the first episode to the current one, in order watched
+    path: number[];
+    completedSeasons: number[];
+    // Recaps of finished episodes, keyed by episode index
+    recaps: Record<number, EpisodeRecap>;
+    // Bot replies per episode that recaps are built from (missing in older saves)
+    transcripts?: Record<number, string[]>;
+    // Replies recorded per episode, including those trimmed from the front of its transcript
+    replyCounts?: Record<number, number>;
+    // Whether the next prompt still gets the "Previously on..." recap
+    recapPending?: boolean;
+    // People, places, promises and items established so far (missing in older saves)
+    ledger?: Ledger;
+    // Viewing statistics per episode (missing in older saves)
+    stats?: ViewingStats;
 };
 
-type ConfigType = {
+type ChatStateType = {
+    // Id of the track being watched
+    activeTrack: string;
+    tracks: Record<string, TrackState>;
+};
+
+export type ConfigType = {
     showEpisodeNumber: boolean;
     showProgress: boolean;
     buttonText: string;
     injectContext: boolean;
+    // Creator-written episode context; empty uses the built-in text
+    contextTemplate: string;
+    injectRecap: boolean;
+    // Inject the current episode's notes and the lore entries the user mentions
+    injectLore: boolean;
+    // Inject the continuity ledger into later episodes
+    injectContinuity: boolean;
+    // Whether injected text goes in the system message or before the user's message
+    injectionTarget: InjectionTarget;
+    // Show the collapsed preview of what the next prompt will be given
+    showInjectionPreview: boolean;
+    // Let the user advance even while an episode's unlock rules aren't met
+    ignoreLocks: boolean;
+    // Comma-separated end-of-episode markers (empty disables detection)
+    endMarkers: string;
+    // Advance automatically once an episode is marked finished
+    autoAdvance: boolean;
+    // Tease the next episode once the current one is finished
+    showUpNext: boolean;
+    // Seconds the Up Next card counts down before playing (0 waits for the user)
+    upNextCountdown: number;
+    // How episodes past the furthest one reached appear in the episode browser
+    spoilerMode: SpoilerMode;
+    // Whether a group chat's characters each keep their own series or share one
+    groupMode: GroupMode;
     theme: 'dark' | 'light' | 'chubflix';
+    // Ribbon, column or wide layout; auto follows the space the stage is given
+    layout: LayoutSetting;
+    // UI language, and the language of text injected into the chat
+    locale: LocaleSetting;
+    promptLocale: LocaleSetting;
+    // Show the debug panel outside development
+    showDebug: boolean;
+    // How many debug events to keep
+    debugBufferSize: number;
+    // Redact message text in the debug panel by default
+    redactDebug: boolean;
+    // Keyboard shortcuts, e.g. "ArrowRight" or "Alt+n" (empty disables)
+    shortcutPrevious: string;
+    shortcutNext: string;
+    shortcutEpisodes: string;
+};
+
+// State a bot reply changes, kept so a reroll can take the reply back
+type ReplyUndo = {
+    unlockProgress: UnlockProgress;
+    episodeFinished: boolean;
+    ledger: Ledger;
+    playthroughs: Playthrough[];
 };
 
-// Debug log entry type
-export type DebugLogEntry = {
-    timestamp: number;
-    event: string;
-    data: unknown;
+// How many earlier episodes a "Previously on..." block may cover
+const MAX_RECAPS_INJECTED = 3;
+
+// Settings used where the stage's config leaves them out
+export const DEFAULT_CONFIG: ConfigType = {
+    showEpisodeNumber: true,
+    showProgress: true,
+    buttonText: '',
+    injectContext: true,
+    contextTemplate: '',
+    injectRecap: true,
+    injectLore: true,
+    injectContinuity: true,
+    injectionTarget: 'system',
+    showInjectionPreview: true,
+    ignoreLocks: false,
+    endMarkers: DEFAULT_END_MARKERS,
+    autoAdvance: false,
+    showUpNext: true,
+    upNextCountdown: 0,
+    spoilerMode: 'blur',
+    groupMode: 'separate',
+    theme: 'chubflix',
+    layout: 'auto',
+    locale: 'auto',
+    promptLocale: 'auto',
+    showDebug: false,
+    debugBufferSize: DEFAULT_DEBUG_BUFFER_SIZE,
+    redactDebug: true,
+    shortcutPrevious: 'ArrowLeft',
+    shortcutNext: 'ArrowRight',
+    shortcutEpisodes: 'e'
 };
 
 // ===== MAIN STAGE CLASS =====
@@ -60,30 +204,83 @@ export class Stage extends StageBase<
     ConfigType
 > {
     // Debug log - stores all events (kept in memory for display)
-    private debugLog: DebugLogEntry[] = [];
-
-    public onDebugUpdate?: (logEntry: DebugLogEntry) => void;
+    private debugLog: Store<DebugLogEntry[]> = createStore<DebugLogEntry[]>([]);
+    private nextDebugId: number = 0;
+    // The debug panel is shown in development, or when enabled in config
+    private debugPanel: boolean = false;
+    // Lifecycle trace of this session, recorded while the debug panel is shown
+    private trace: Trace | null = null;
+    // What the panel shows, republished whenever the stage's state changes
+    private snapshot: Store<StageSnapshot>;
     
-    // Internal state
+    // Every character's series, the one being watched, and saved progress
+    // of the others
+    private tracks: Track[] = [];
+    private activeTrack: string = '';
+    private trackStates: Record<string, TrackState> = {};
+    private groupChat: boolean = false;
+    // Card fields that couldn't be read, shown to the creator in the panel
+    private cardIssues: CardIssue[] = [];
+    
+    // Internal state (of the active track)
     private currentEpisode: number = 0;
     private totalEpisodes: number = 1;
-    private episodeTitles: string[] = [];
+    private episodes: Episode[] = [];
+    private graph: EpisodeGraph = [[]];
+    private owners: string[] = [];
+    private path: number[] = [0];
+    private completedSeasons: number[] = [];
     private characterName: string = '';
+    // The user's name, for the `{{user}}` template placeholder
+    private userName: string = '';
+    // Character and user names, which the continuity ledger doesn't list as new people
+    private knownNames: string[] = [];
     private highestEpisodeReached: number = 0;
-    private completed: boolean = false;
-    
-    private config: ConfigType = {
-        showEpisodeNumber: true,
-        showProgress: true,
-        buttonText: 'Next Episode',
-        injectContext: true,
-        theme: 'chubflix'
-    };
+    // Episodes entered on any path, which decide watched and spoiler state
+    private visited: number[] = [0];
+    private playthroughs: Playthrough[] = [];
+    
+    // Recaps persisted in chat state, and the bot replies per episode that
+    // new recaps are built from
+    private recaps: Record<number, EpisodeRecap> = {};
+    private transcripts: Record<number, string[]> = {};
+    private replyCounts: Record<number, number> = {};
+    // Set by a user message; a reply without one is a reroll of the last reply
+    private awaitingReply: boolean = false;
+    // What stood before the last reply, put back when that reply is rerolled
+    private beforeReply: ReplyUndo | null = null;
+    private ledger: Ledger = emptyLedger();
+    private stats: ViewingStats = {};
+    // When the user last wrote, read or navigated; watch time is counted from here
+    private lastActivityAt: number = Date.now();
+    // Set when an episode starts, cleared once its "Previously on..." is injected
+    private recapPending: boolean = false;
+    
+    private unlockProgress: UnlockProgress = startProgress(Date.now());
+    private episodeFinished: boolean = false;
+    // The episode whose end marker arrived in this session; only then does Up Next count down
+    private finishedLive: { track: string; episode: number } | null = null;
+    // Republishes when a time lock's remaining minutes change, as no message or click may come
+    private unlockTimer: ReturnType<typeof setTimeout> | null = null;
+    
+    private theme: ThemeTokens = THEMES.chubflix;
+    private uiLocale: string = 'en';
+    private t: Translate<UiMessageKey> = createUiTranslator('en');
+    private promptT: Translate<PromptMessageKey> = createPromptTranslator('en');
+    
+    private config: ConfigType = DEFAULT_CONFIG;
 
     constructor(data: InitialData<InitStateType, ChatStateType, MessageStateType, ConfigType>) {
         super(data);
 
-        console.log(data);
+        if (data.config) {
+            this.config = { ...this.config, ...data.config };
+        }
+        
+        this.debugPanel = this.config.showDebug || data.environment === 'development';
+        if (this.debugPanel) {
+            this.trace = startTrace(data);
+        }
         
         // Log constructor data
         this.addDebugLog('constructor', {
@@ -95,52 +292,69 @@ export class Stage extends StageBase<
             messageState: data.messageState
         });
         
-        if (data.config) {
-            this.config = { ...this.config, ...data.config };
+        // Characters removed from a group chat get no series, like removed users
+        const present = Object.entries(data.characters ?? {}).filter(([, character]) => !character?.isRemoved);
+        const { characters: sources, issues } = normalizeCharacters(Object.fromEntries(present));
+        this.cardIssues = issues;
+        if (issues.length > 0) {
+            this.addDebugLog('cardIssues', { issues });
         }
+        this.tracks = buildTracks(sources, this.config.groupMode);
+        this.groupChat = sources.length > 1;
+        this.userName = Object.values(data.users ?? {}).find(user => !user.isRemoved)?.name ?? '';
+        this.knownNames = [...sources.map(source => source.name), this.userName].filter(name => name.length > 0);
+        const cardTheme = sources.length > 0 ? readCardTheme(sources[0].extensions) : null;
         
-        const characters = data.characters || [];
-        if (Array.isArray(characters) && characters.length > 0) {
-            const mainChar = characters[0] as Character & { 
-                first_mes?: string; 
-                alternate_greetings?: string[];
-                name?: string;
-            };
-            this.characterName = mainChar.name || 'Character';
-            this.totalEpisodes = 1;
-            if (mainChar.alternate_greetings && Array.isArray(mainChar.alternate_greetings)) {
-                this.totalEpisodes += mainChar.alternate_greetings.length;
-            }
-            this.episodeTitles = this.extractEpisodeTitles(mainChar);
-        }
+        this.restoreState(data.chatState, data.messageState);
+        
+        this.theme = resolveTheme(this.config.theme, cardTheme);
+        
+        const uiLocale = resolveLocale(this.config.locale, browserLanguage());
+        this.uiLocale = uiLocale;
+        this.t = createUiTranslator(uiLocale);
+        this.promptT = createPromptTranslator(resolveLocale(this.config.promptLocale, uiLocale));
+        
+        this.snapshot = createStore(this.buildSnapshot());
     }
 
     public getDebugLog(): DebugLogEntry[] {
-        return this.debugLog;
+        return this.debugLog.getState();
+    }
+
+    /**
+     * Follow the debug log. Returns a function that unsubscribes.
+     */
+    public subscribeDebugLog(listener: () => void): () => void {
+        return this.debugLog.subscribe(listener);
+    }
+
+    public getTrace(): Trace | null {
+        return this.trace;
+    }
+
+    public getEpisodeCount(): number {
+        return this.totalEpisodes;
     }
 
     public clearDebugLog(): void {
-        this.debugLog = [];
+        this.debugLog.setState([]);
     }
 
     public addDebugLog(event: string, data: unknown): void {
-        let logEntry: DebugLogEntry = {
+        const logEntry: DebugLogEntry = {
+            id: this.nextDebugId++,
             timestamp: Date.now(),
             event,
             data
         };
-        this.debugLog.push(logEntry);
-
-        if (this.onDebugUpdate !== undefined) {
-            this.onDebugUpdate(logEntry);
+        // Lifecycle events carry message text, so the console only gets them in debug mode
+        if (this.debugPanel) {
+            console.log(logEntry);
         }
-
-        console.log(logEntry);
         
-        // Keep only last 50 entries to prevent memory issues
-        if (this.debugLog.length > 50) {
-            this.debugLog = this.debugLog.slice(-50);
-        }
+        // Keep only the most recent entries to prevent memory issues
+        const bufferSize = Math.max(1, Math.floor(this.config.debugBufferSize) || DEFAULT_DEBUG_BUFFER_SIZE);
+        this.debugLog.setState([...this.debugLog.getState(), logEntry].slice(-bufferSize));
     }
 
     async load(): Promise<Partial<LoadResponse<InitStateType, ChatStateType, MessageStateType>>> {
@@ -150,15 +364,14 @@ export class Stage extends StageBase<
             initState: {
                 totalEpisodes: this.totalEpisodes,
                 characterName: this.characterName,
-                episodeTitles: this.episodeTitles
+                episodes: this.episodes
             },
-            chatState: {
-                highestEpisodeReached: this.highestEpisodeReached,
-                completed: this.completed
-            }
+            chatState: this.buildChatState()
         };
         
         this.addDebugLog('load', { response });
+        this.record({ type: 'load', response });
+        this.publish();
         
         return response;
     }
@@ -171,34 +384,41 @@ export class Stage extends StageBase<
                 currentEpisode: this.currentEpisode,
                 totalEpisodes: this.totalEpisodes,
                 highestEpisodeReached: this.highestEpisodeReached,
-                completed: this.completed
+                completed: this.isCompleted()
             }
         });
         
-        let addSystem: string | null = null;
+        this.addDebugLog('unlockStatus', { progress: this.unlockProgress, status: this.getUnlockStatus() });
         
-        if (this.config.injectContext) {
-            const episodeTitle = this.episodeTitles[this.currentEpisode] || `Episode ${this.currentEpisode + 1}`;
-            addSystem = `[Chubflix Episode Context: Currently on ${episodeTitle} (${this.currentEpisode + 1}/${this.totalEpisodes}). Maintain narrative continuity with previous episodes.]`;
-        }
+        this.recordActivity();
+        this.stats = recordUserMessage(this.stats, this.currentEpisode);
+        this.recordContinuity(userMessage.content || '', this.userName);
+        const injected = this.buildInjection(userMessage.content);
+        this.recapPending = false;
+        this.awaitingReply = true;
         
         const response = {
-            stateMessage: `Episode ${this.currentEpisode + 1}/${this.totalEpisodes}`,
+            stateMessage: this.getStateMessage(),
             messageState: {
                 currentEpisode: this.currentEpisode,
                 startedAt: Date.now(),
+                unlockProgress: this.unlockProgress,
+                episodeFinished: this.episodeFinished,
+                track: this.activeTrack,
+                replyCount: this.getReplyCount(),
                 lastEvent: 'beforePrompt',
                 lastData: userMessage
             },
-            chatState: {
-                highestEpisodeReached: Math.max(this.highestEpisodeReached, this.currentEpisode),
-                completed: this.completed
-            },
-            modifiedMessage: null,
-            systemMessage: addSystem,
+            chatState: this.buildChatState(),
+            modifiedMessage: injected !== null && this.config.injectionTarget === 'message'
+                ? `${injected}\n\n${userMessage.content}`
+                : null,
+            systemMessage: injected !== null && this.config.injectionTarget === 'system' ? injected : null,
         };
         
         this.addDebugLog('beforePrompt_response', { response });
+        this.record({ type: 'beforePrompt', input: userMessage, response });
+        this.publish();
         
         return response;
     }
@@ -211,27 +431,79 @@ export class Stage extends StageBase<
                 currentEpisode: this.currentEpisode,
                 totalEpisodes: this.totalEpisodes,
                 highestEpisodeReached: this.highestEpisodeReached,
-                completed: this.completed
+                completed: this.isCompleted()
             }
         });
         
+        const endMarker = detectEndMarker(botMessage.content || '', parseEndMarkers(this.config.endMarkers));
+        const reroll = !this.awaitingReply;
+        this.awaitingReply = false;
+        // A reroll stands in for the last reply, so what that reply counted is taken back
+        const undone = reroll && this.undoLastReply();
+        if (!reroll) {
+            this.beforeReply = {
+                unlockProgress: this.unlockProgress,
+                episodeFinished: this.episodeFinished,
+                ledger: this.ledger,
+                playthroughs: this.playthroughs
+            };
+        }
+        
+        const repliedIn = this.currentEpisode;
+        this.recordActivity();
+        this.stats = reroll
+            ? recordSwipe(this.stats, this.currentEpisode)
+            : recordBotMessage(this.stats, this.currentEpisode, endMarker.cleaned.length);
+        
+        if (endMarker.cleaned) {
+            this.recordContinuity(endMarker.cleaned, this.owners[this.currentEpisode] || this.characterName);
+            this.recordReply(endMarker.cleaned, reroll);
+        }
+        
+        this.unlockProgress = recordExchange(
+            this.episodes[this.currentEpisode]?.unlock ?? null,
+            this.unlockProgress,
+            botMessage.content || '',
+            reroll && !undone
+        );
+        this.addDebugLog('unlockStatus', { progress: this.unlockProgress, status: this.getUnlockStatus() });
+        
+        let modifiedMessage: string | null = null;
+        if (endMarker.found) {
+            modifiedMessage = endMarker.cleaned;
+            this.episodeFinished = true;
+            this.finishedLive = { track: this.activeTrack, episode: this.currentEpisode };
+            this.addDebugLog('episodeFinished', { episode: this.currentEpisode, marker: endMarker.marker });
+            
+            if (this.isEnding(this.currentEpisode)) {
+                this.finishPlaythrough();
+            } else if (this.config.autoAdvance && this.getSuccessors(this.currentEpisode).length === 1) {
+                this.goToNextEpisode();
+            }
+        }
+        
         const response = {
-            stateMessage: `Episode ${this.currentEpisode + 1}/${this.totalEpisodes}`,
+            stateMessage: this.getStateMessage(),
             messageState: {
                 currentEpisode: this.currentEpisode,
                 startedAt: Date.now(),
+                unlockProgress: this.unlockProgress,
+                episodeFinished: this.episodeFinished,
+                track: this.activeTrack,
+                // After an automatic advance the message opens the next episode, without a reply in it
+                reply: this.currentEpisode === repliedIn ? endMarker.cleaned : undefined,
+                replyCount: this.getReplyCount(),
                 lastEvent: 'afterResponse',
                 lastData: botMessage
             },
-            chatState: {
-                highestEpisodeReached: Math.max(this.highestEpisodeReached, this.currentEpisode),
-                completed: this.currentEpisode >= this.totalEpisodes - 1
-            },
-            modifiedMessage: null,
+            chatState: this.buildChatState(),
+            modifiedMessage,
             systemMessage: null
         };
         
         this.addDebugLog('afterResponse_response', { response });
+        this.record({ type: 'afterResponse', input: botMessage, response });
+        this.publish();
         
         return response;
     }
@@ -244,76 +516,702 @@ export class Stage extends StageBase<
                 currentEpisode: this.currentEpisode
             }
         });
+        this.record({ type: 'setState', input: state });
+        
+        if (state) {
+            if (state.track && state.track !== this.activeTrack) {
+                this.stashTrack();
+                this.loadTrack(state.track);
+            }
+            this.applyMessageState(state);
+            this.stats = recordSwipe(this.stats, this.currentEpisode);
+            if (state.replyCount !== undefined) {
+                this.rewindReplies(state.replyCount, state.reply);
+            } else if (state.reply) {
+                this.recordReply(state.reply, true);
+            }
+        }
+        this.publish();
         
         if (state) {
-            this.currentEpisode = state.currentEpisode || 0;
+            // Keep the persisted path in line with the message the user moved to
+            await this.saveChatState();
         }
     }
-
-    private extractEpisodeTitles(character: Character & { first_mes?: string; alternate_greetings?: string[] }): string[] {
-        const titles: string[] = [];
+    
+    /**
+     * Carry out something the user did in the panel. Every click goes
+     * through here so it can be recorded in the trace and replayed. The
+     * panel shows the result straight away; the returned promise resolves
+     * with the chat state the action left behind once it has been saved.
+     */
+    public async performAction(action: StageAction): Promise<ChatStateType> {
+        switch (action.type) {
+            case 'next':
+                this.goToNextEpisode(action.target);
+                break;
+            case 'previous':
+                this.goToPreviousEpisode();
+                break;
+            case 'jump':
+                this.jumpToEpisode(action.index);
+                break;
+            case 'switchTrack':
+                this.switchTrack(action.track);
+                break;
+            case 'editRecap':
+                this.saveRecap(action.index, action.text);
+                break;
+            case 'addLedgerEntry':
+                this.updateLedger(addLedgerEntry(this.ledger, action.kind, action.text, this.currentEpisode));
+                break;
+            case 'editLedgerEntry':
+                this.updateLedger(editLedgerEntry(this.ledger, action.id, action.text));
+                break;
+            case 'removeLedgerEntry':
+                this.updateLedger(removeLedgerEntry(this.ledger, action.id));
+                break;
+            case 'rewatch':
+                this.rewatch();
+                break;
+        }
+        
+        const chatState = this.buildChatState();
+        this.record({ type: 'action', input: action, response: chatState });
+        this.publish();
+        await this.saveChatState();
+        return chatState;
+    }
+    
+    private record(step: TraceStep): void {
+        if (this.trace) {
+            recordStep(this.trace, step);
+        }
+    }
+    
+    // Show the stage's current state in the panel
+    private publish(): void {
+        this.snapshot.setState(this.buildSnapshot());
+        this.scheduleUnlockRefresh();
+    }
+    
+    /**
+     * Publish again when the current episode's time lock next changes, so
+     * the locked button counts down and unlocks by itself. Every publish
+     * replaces the timer, so it never outlives the episode it was set for.
+     */
+    private scheduleUnlockRefresh(): void {
+        if (this.unlockTimer !== null) {
+            clearTimeout(this.unlockTimer);
+            this.unlockTimer = null;
+        }
+        if (this.config.ignoreLocks || this.episodeFinished) return;
         
-        if (character.first_mes) {
-            const title = this.extractTitleFromGreeting(character.first_mes);
-            titles.push(title || 'Episode 1');
+        const delay = nextTimeChange(this.episodes[this.currentEpisode]?.unlock ?? null, this.unlockProgress, Date.now());
+        if (delay !== null) {
+            this.unlockTimer = setTimeout(() => {
+                this.unlockTimer = null;
+                this.publish();
+            }, delay);
+        }
+    }
+    
+    /**
+     * Restore progress saved by earlier sessions. Chat state is written on
+     * every navigation, so its active track and that track's path decide
+     * the current episode; the message state supplies the unlock progress
+     * when it belongs to that episode. Anything pointing outside the
+     * card's episodes is dropped.
+     */
+    private restoreState(chatState: ChatStateType | null | undefined, messageState: MessageStateType | null | undefined): void {
+        // Chat state saved before tracks existed holds a single track's progress
+        const legacy = chatState as Partial<TrackState> | null | undefined;
+        // The first version saved only the furthest episode reached and a completed flag
+        const unversioned = !chatState?.tracks && !legacy?.path && typeof legacy?.highestEpisodeReached === 'number';
+        if (chatState?.tracks) {
+            this.trackStates = { ...chatState.tracks };
+        } else if (legacy?.path && this.tracks.length > 0) {
+            this.trackStates = { [this.tracks[0].id]: legacy as TrackState };
+        } else if (unversioned && this.tracks.length > 0) {
+            const track = this.tracks[0];
+            const highest = legacy?.highestEpisodeReached ?? 0;
+            this.trackStates = {
+                [track.id]: { ...legacy, path: reconcilePath(track.graph, [0], highest) } as TrackState
+            };
         }
         
-        if (character.alternate_greetings && Array.isArray(character.alternate_greetings)) {
-            character.alternate_greetings.forEach((greeting: string, index: number) => {
-                const title = this.extractTitleFromGreeting(greeting);
-                titles.push(title || `Episode ${index + 2}`);
-            });
+        this.loadTrack(chatState?.activeTrack ?? messageState?.track ?? '');
+        
+        // A path seeded from the furthest episode reached gives way to the message's own episode
+        const hasSavedPath = !unversioned && (this.trackStates[this.activeTrack]?.path || []).length > 0;
+        if (messageState
+            && (messageState.track ?? this.activeTrack) === this.activeTrack
+            && (!hasSavedPath || messageState.currentEpisode === this.currentEpisode)) {
+            this.applyMessageState(messageState);
+            // Time since the last message counts towards the episode, up to the idle limit
+            this.lastActivityAt = Math.min(messageState.startedAt || Date.now(), Date.now());
         }
+        this.markVisited();
         
-        return titles;
+        this.addDebugLog('restoreState', {
+            track: this.activeTrack,
+            currentEpisode: this.currentEpisode,
+            path: this.path,
+            highestEpisodeReached: this.highestEpisodeReached,
+            completed: this.isCompleted()
+        });
     }
     
-    private extractTitleFromGreeting(greeting: string): string | null {
-        const patterns = [
-            /^\*\*([^*]+)\*\*/,
-            /^#\s+(.+?)(?:\n|$)/,
-            /^"([^"]+)"/,
-            /^Episode\s+\d+:\s*(.+?)(?:\n|$)/i
-        ];
+    /**
+     * Make a track the active one, picking up its saved progress. Unknown
+     * ids fall back to the first track.
+     */
+    private loadTrack(id: string): void {
+        const track = this.tracks.find(candidate => candidate.id === id) ?? this.tracks[0];
+        if (!track) return;
         
-        for (const pattern of patterns) {
-            const match = greeting.trim().match(pattern);
-            if (match) {
-                return match[1].trim();
+        const state = this.trackStates[track.id];
+        this.activeTrack = track.id;
+        this.characterName = track.name;
+        this.episodes = track.episodes;
+        this.graph = track.graph;
+        this.owners = track.owners;
+        this.totalEpisodes = track.episodes.length;
+        
+        const path = (state?.path || []).filter(index => this.isEpisode(index));
+        this.path = path.length > 0 ? path : [0];
+        this.currentEpisode = this.path[this.path.length - 1];
+        this.highestEpisodeReached = Math.max(this.clampEpisode(state?.highestEpisodeReached ?? 0), this.currentEpisode);
+        this.playthroughs = restorePlaythroughs(state, Date.now());
+        // Older saves only know the furthest episode reached, so everything up to it counts as visited
+        const visited = state?.visited ?? Array.from({ length: this.highestEpisodeReached + 1 }, (_, index) => index);
+        this.visited = [];
+        [...visited, ...this.path].forEach(index => this.addVisited(index));
+        this.completedSeasons = [...(state?.completedSeasons || [])];
+        this.recaps = { ...(state?.recaps || {}) };
+        this.transcripts = { ...(state?.transcripts || {}) };
+        this.replyCounts = { ...(state?.replyCounts || {}) };
+        this.ledger = state?.ledger ?? emptyLedger();
+        this.stats = state?.stats ?? {};
+        this.unlockProgress = startProgress(Date.now());
+        this.beforeReply = null;
+        this.episodeFinished = false;
+        this.recapPending = state?.recapPending ?? false;
+    }
+    
+    // Keep the active track's progress while another track is watched
+    private stashTrack(): void {
+        if (!this.activeTrack) return;
+        this.trackStates = { ...this.trackStates, [this.activeTrack]: this.buildTrackState() };
+    }
+    
+    private switchTrack(id: string): void {
+        if (id === this.activeTrack) return;
+        
+        this.recordActivity();
+        this.stashTrack();
+        this.loadTrack(id);
+        this.markVisited();
+        
+        this.addDebugLog('switchTrack', {
+            track: this.activeTrack,
+            currentEpisode: this.currentEpisode,
+            path: this.path
+        });
+    }
+    
+    private applyMessageState(state: MessageStateType): void {
+        this.currentEpisode = this.clampEpisode(state.currentEpisode || 0);
+        this.path = reconcilePath(this.graph, this.path, this.currentEpisode);
+        this.unlockProgress = state.unlockProgress ?? startProgress(Date.now());
+        this.beforeReply = null;
+        this.episodeFinished = state.episodeFinished ?? false;
+        // A restored finish wasn't seen happen, so it doesn't count down
+        this.finishedLive = null;
+        this.highestEpisodeReached = Math.max(this.highestEpisodeReached, this.currentEpisode);
+        this.addVisited(this.currentEpisode);
+    }
+    
+    // Count the time since the last activity towards the current episode
+    private recordActivity(): void {
+        const now = Date.now();
+        this.stats = recordTime(this.stats, this.currentEpisode, this.lastActivityAt, now);
+        this.lastActivityAt = now;
+    }
+    
+    // Record the first visit of the current episode, e.g. when a chat starts
+    private markVisited(): void {
+        if (this.isEpisode(this.currentEpisode) && !this.stats[this.currentEpisode]?.firstVisit) {
+            this.stats = recordVisit(this.stats, this.currentEpisode, Date.now());
+        }
+    }
+    
+    private addVisited(index: number): void {
+        if (this.isEpisode(index) && !this.visited.includes(index)) {
+            this.visited = [...this.visited, index].sort((a, b) => a - b);
+        }
+    }
+    
+    /**
+     * Whether the episode browser may jump to an episode: one visited
+     * before, or a successor of the current episode once it is unlocked.
+     */
+    private canJumpTo(index: number): boolean {
+        if (this.visited.includes(index)) return true;
+        return this.getSuccessors(this.currentEpisode).includes(index) && this.getUnlockStatus().unlocked;
+    }
+    
+    private isCompleted(): boolean {
+        return this.playthroughs.length > 0 && currentPlaythrough(this.playthroughs).completed;
+    }
+    
+    private isEpisode(index: number): boolean {
+        return Number.isInteger(index) && index >= 0 && index < this.totalEpisodes;
+    }
+    
+    private clampEpisode(index: number): number {
+        return Math.min(Math.max(Math.floor(index) || 0, 0), this.totalEpisodes - 1);
+    }
+
+    private getEpisodeTitle(index: number, translate: Translate<'episodeFallback'> = this.t): string {
+        return this.episodes[index]?.title || translate('episodeFallback', { number: index + 1 });
+    }
+    
+    /**
+     * The episode title for injected context. In a group chat it also
+     * names the character whose series the episode belongs to.
+     */
+    private getContextTitle(index: number): string {
+        const title = this.getEpisodeTitle(index, this.promptT);
+        const owner = this.owners[index];
+        return this.groupChat && owner ? this.promptT('characterEpisode', { title, character: owner }) : title;
+    }
+    
+    private getTemplateValues(index: number): TemplateValues {
+        const episode = this.episodes[index];
+        const { position, total } = pathProgress(this.graph, this.path);
+        const previous = this.path.length > 1 ? this.path[this.path.length - 2] : null;
+        const successors = this.getSuccessors(index);
+        return {
+            title: this.getEpisodeTitle(index, this.promptT),
+            episode: episode?.episodeNumber ?? position,
+            total,
+            season: episode?.season ?? null,
+            synopsis: episode?.synopsis ?? null,
+            char: this.owners[index] || this.characterName,
+            user: this.userName,
+            previousTitle: previous !== null ? this.getEpisodeTitle(previous, this.promptT) : null,
+            // Branches list every way on
+            nextTitle: successors.length > 0
+                ? successors.map(successor => this.getEpisodeTitle(successor, this.promptT)).join(' / ')
+                : null
+        };
+    }
+    
+    /**
+     * The episode context for the current episode: the episode's own
+     * template, else the configured one, else the built-in text.
+     */
+    private buildEpisodeContext(): string {
+        const index = this.currentEpisode;
+        const episode = this.episodes[index];
+        const template = episode?.contextTemplate || this.config.contextTemplate.trim();
+        if (template) {
+            return renderTemplate(template, this.getTemplateValues(index));
+        }
+        
+        const { position, total } = pathProgress(this.graph, this.path);
+        const title = this.getContextTitle(index);
+        return episode?.season != null
+            ? this.promptT('seasonEpisodeContext', {
+                title,
+                season: episode.season,
+                episode: episode.episodeNumber ?? position,
+                current: position,
+                total
+            })
+            : this.promptT('episodeContext', { title, current: position, total });
+    }
+    
+    /**
+     * Everything injected with a prompt, or null when there's nothing.
+     * Lore entries are matched against the user's message, when given.
+     */
+    private buildInjection(userContent: string | null): string | null {
+        const parts: string[] = [];
+        
+        if (this.recapPending && this.config.injectRecap) {
+            const previouslyOn = this.buildPreviouslyOn();
+            if (previouslyOn) {
+                parts.push(previouslyOn);
+            }
+        }
+        
+        if (this.config.injectContext) {
+            const context = this.buildEpisodeContext();
+            if (context) {
+                parts.push(context);
+            }
+        }
+        
+        if (this.config.injectContinuity) {
+            const continuity = this.buildContinuity();
+            if (continuity) {
+                parts.push(continuity);
             }
         }
         
-        const firstLine = greeting.trim().split('\n')[0];
-        if (firstLine && firstLine.length <= 50) {
-            return firstLine.replace(/[*#"]/g, '').trim();
+        const lore = this.episodes[this.currentEpisode]?.lore ?? null;
+        if (this.config.injectLore && hasLore(lore)) {
+            const triggered = userContent !== null ? matchLoreEntries(lore, userContent) : [];
+            if (triggered.length > 0) {
+                this.addDebugLog('loreTriggered', { keywords: triggered.map(entry => entry.keywords) });
+            }
+            const notes = formatLore(lore, triggered, this.promptT);
+            if (notes) {
+                parts.push(notes);
+            }
         }
         
-        return null;
+        return parts.length > 0 ? parts.join('\n\n') : null;
     }
     
-    private goToNextEpisode(): void {
-        if (this.currentEpisode < this.totalEpisodes - 1) {
-            this.currentEpisode++;
-            this.highestEpisodeReached = Math.max(this.highestEpisodeReached, this.currentEpisode);
-            
-            if (this.currentEpisode >= this.totalEpisodes - 1) {
-                this.completed = true;
+    private getSuccessors(index: number): number[] {
+        return this.graph[index] || [];
+    }
+    
+    private isEnding(index: number): boolean {
+        return this.getSuccessors(index).length === 0;
+    }
+    
+    /**
+     * The episode the Up Next card teases, once a finished episode has a
+     * single way on. It only counts down when the episode was finished in
+     * this session, so reopening the chat never plays on by itself.
+     */
+    private getUpNext(): UpNext | null {
+        const successors = this.getSuccessors(this.currentEpisode);
+        if (!this.config.showUpNext || !this.episodeFinished || successors.length !== 1) {
+            return null;
+        }
+        const index = successors[0];
+        const live = this.finishedLive?.track === this.activeTrack && this.finishedLive.episode === this.currentEpisode;
+        return {
+            index,
+            title: this.getEpisodeTitle(index),
+            opening: this.episodes[index]?.opening ?? null,
+            countdown: live ? countdownSeconds(this.config.upNextCountdown) : 0
+        };
+    }
+    
+    private getUnlockStatus(): UnlockStatus {
+        // An episode the model has declared finished is always unlocked
+        if (this.config.ignoreLocks || this.episodeFinished) {
+            return { unlocked: true, missing: [] };
+        }
+        return evaluateUnlock(this.episodes[this.currentEpisode]?.unlock ?? null, this.unlockProgress, Date.now());
+    }
+    
+    // Summarize unmet unlock rules for the locked Next button
+    private describeLock(status: UnlockStatus): string {
+        const parts = status.missing.map(requirement => {
+            switch (requirement.type) {
+                case 'exchanges':
+                    return this.t('lockedExchanges', { count: requirement.remaining });
+                case 'time':
+                    return this.t('lockedMinutes', { count: requirement.remainingMinutes });
+                case 'keyword':
+                    return requirement.hint ?? this.t('lockedKeyword', { keywords: requirement.keywords.join(' / ') });
             }
+        });
+        return `🔒 ${parts.join(' · ')}`;
+    }
+    
+    private getStateMessage(): string {
+        const { position, total } = pathProgress(this.graph, this.path);
+        const episode = this.episodes[this.currentEpisode];
+        if (episode?.season != null) {
+            return this.t('seasonStateMessage', {
+                season: episode.season,
+                episode: episode.episodeNumber ?? position,
+                current: position,
+                total
+            });
+        }
+        return this.t('stateMessage', { current: position, total });
+    }
+    
+    private buildTrackState(): TrackState {
+        return {
+            highestEpisodeReached: this.highestEpisodeReached,
+            visited: this.visited,
+            playthroughs: trackPath(this.playthroughs, this.path),
+            path: this.path,
+            completedSeasons: this.completedSeasons,
+            recaps: this.recaps,
+            transcripts: this.transcripts,
+            replyCounts: this.replyCounts,
+            recapPending: this.recapPending,
+            ledger: this.ledger,
+            stats: this.stats
+        };
+    }
+    
+    private buildChatState(): ChatStateType {
+        const tracks = this.activeTrack
+            ? { ...this.trackStates, [this.activeTrack]: this.buildTrackState() }
+            : this.trackStates;
+        return { activeTrack: this.activeTrack, tracks };
+    }
+    
+    /**
+     * Put back the unlock progress, finished flag, ledger and playthroughs
+     * from before the last reply. Moving to another episode or message
+     * forgets them; returns whether anything was put back.
+     */
+    private undoLastReply(): boolean {
+        const before = this.beforeReply;
+        if (!before) return false;
+        this.unlockProgress = before.unlockProgress;
+        this.episodeFinished = before.episodeFinished;
+        this.ledger = before.ledger;
+        this.playthroughs = before.playthroughs;
+        this.addDebugLog('replyUndone', { episode: this.currentEpisode });
+        return true;
+    }
+    
+    private getReplyCount(): number {
+        return this.replyCounts[this.currentEpisode] ?? (this.transcripts[this.currentEpisode] || []).length;
+    }
+    
+    // Keep a bot reply of the current episode for its recap, replacing the last one on a swipe
+    private recordReply(text: string, replaceLast: boolean): void {
+        const transcript = this.transcripts[this.currentEpisode] || [];
+        const count = this.getReplyCount();
+        this.transcripts = {
+            ...this.transcripts,
+            [this.currentEpisode]: recordTranscript(transcript, text, replaceLast && transcript.length > 0)
+        };
+        this.replyCounts = { ...this.replyCounts, [this.currentEpisode]: replaceLast ? Math.max(count, 1) : count + 1 };
+    }
+    
+    /**
+     * Take the current episode's transcript back to a message the user
+     * swiped or jumped to: the replies after it are dropped, and the
+     * message's own reply stands in for the one shown before.
+     */
+    private rewindReplies(count: number, reply: string | undefined): void {
+        const total = this.getReplyCount();
+        this.transcripts = {
+            ...this.transcripts,
+            [this.currentEpisode]: rewindTranscript(this.transcripts[this.currentEpisode] || [], total, count)
+        };
+        this.replyCounts = { ...this.replyCounts, [this.currentEpisode]: Math.min(count, total) };
+        if (reply) {
+            this.recordReply(reply, true);
+        }
+    }
+    
+    /**
+     * Build the recap of a finished episode from its saved bot replies.
+     * Recaps the user has edited are left alone.
+     */
+    private finalizeRecap(index: number): void {
+        if (this.recaps[index]?.edited) return;
+        
+        const text = buildRecap(this.transcripts[index] || []);
+        if (text) {
+            this.recaps = {
+                ...this.recaps,
+                [index]: { text, edited: false, updatedAt: Date.now() }
+            };
+            this.addDebugLog('recapBuilt', { episode: index, text });
+        }
+    }
+    
+    private buildPreviouslyOn(): string | null {
+        const entries = this.path
+            .slice(0, -1)
+            .filter(index => this.recaps[index]?.text)
+            .slice(-MAX_RECAPS_INJECTED)
+            .map(index => ({ title: this.getEpisodeTitle(index, this.promptT), text: this.recaps[index].text }));
+        return formatPreviouslyOn(this.promptT('previouslyOn', { series: this.characterName }), entries);
+    }
+    
+    private recordContinuity(content: string, speaker: string): void {
+        const source: LedgerSource = { episode: this.currentEpisode, speaker, knownNames: this.knownNames };
+        const before = this.ledger.entries.length;
+        this.ledger = recordMessage(this.ledger, content, source);
+        if (this.ledger.entries.length !== before) {
+            this.addDebugLog('ledgerUpdated', { entries: this.ledger.entries.slice(before) });
+        }
+    }
+    
+    // The ledger as established by the episodes before this one on the path, plus the user's own entries
+    private buildContinuity(): string | null {
+        const earlier = this.path.slice(0, -1);
+        const entries = this.ledger.entries.filter(entry => entry.edited || earlier.includes(entry.episode));
+        return formatLedger(entries, this.promptT);
+    }
+    
+    private updateLedger(ledger: Ledger): void {
+        this.ledger = ledger;
+        // The user's edits stay, even if the reply before them is rerolled
+        this.beforeReply = null;
+        this.addDebugLog('ledgerEdited', { entries: ledger.entries.length, dismissed: ledger.dismissed.length });
+    }
+    
+    private saveRecap(index: number, text: string): void {
+        this.recaps = {
+            ...this.recaps,
+            [index]: { text, edited: true, updatedAt: Date.now() }
+        };
+        this.addDebugLog('recapEdited', { episode: index, text });
+    }
+    
+    /**
+     * Persist chat state right away, so navigation survives a reload even
+     * if no message is sent afterwards.
+     */
+    private async saveChatState(): Promise<void> {
+        await this.messenger.updateChatState(this.buildChatState());
+    }
+    
+    /**
+     * Move forward into an episode along the given path: wrap up the
+     * episode being left and start fresh progress in the new one.
+     */
+    private enterEpisode(index: number, path: number[]): void {
+        this.finalizeRecap(this.currentEpisode);
+        this.recordActivity();
+        this.currentEpisode = index;
+        this.stats = recordVisit(this.stats, index, Date.now());
+        this.path = path;
+        this.recapPending = true;
+        this.unlockProgress = startProgress(Date.now());
+        this.beforeReply = null;
+        this.episodeFinished = false;
+        this.highestEpisodeReached = Math.max(this.highestEpisodeReached, index);
+        this.addVisited(index);
+        
+        const finished = completedSeasons(this.episodes, this.graph, this.path);
+        this.completedSeasons = [...new Set([...this.completedSeasons, ...finished])].sort((a, b) => a - b);
+    }
+    
+    /**
+     * Complete the current playthrough once its ending is finished, by the
+     * bot's end marker or the Final button. Entering an ending isn't enough.
+     */
+    private finishPlaythrough(): void {
+        if (this.isCompleted()) return;
+        this.episodeFinished = true;
+        this.playthroughs = completePlaythrough(this.playthroughs, Date.now());
+        this.addDebugLog('playthroughCompleted', { episode: this.currentEpisode, playthrough: this.playthroughs.length });
+    }
+    
+    /**
+     * Advance to a successor of the current episode. With a single
+     * successor the target may be omitted; branching episodes need the
+     * user's choice. At an ending, Next (shown as Final) finishes the
+     * playthrough instead.
+     */
+    private goToNextEpisode(target?: number): void {
+        const successors = this.getSuccessors(this.currentEpisode);
+        const next = target ?? (successors.length === 1 ? successors[0] : undefined);
+        
+        const status = this.getUnlockStatus();
+        if (!status.unlocked) {
+            this.addDebugLog('goToNextEpisode_locked', { episode: this.currentEpisode, missing: status.missing });
+            return;
+        }
+        
+        if (successors.length === 0 && !this.isCompleted()) {
+            this.finishPlaythrough();
+            return;
+        }
+        
+        if (next !== undefined && successors.includes(next)) {
+            this.enterEpisode(next, [...this.path, next]);
             
             this.addDebugLog('goToNextEpisode', {
                 newEpisode: this.currentEpisode,
+                path: this.path,
                 highestEpisodeReached: this.highestEpisodeReached,
-                completed: this.completed
+                completed: this.isCompleted()
             });
         }
     }
     
+    /**
+     * Jump straight to an episode from the episode browser: any episode
+     * visited before, or the next one once the current one is unlocked.
+     * Episodes further on can't be jumped to, so no unlock rule is skipped.
+     */
+    private jumpToEpisode(index: number): void {
+        if (index === this.currentEpisode || !this.isEpisode(index)) {
+            return;
+        }
+        
+        if (!this.canJumpTo(index)) {
+            this.addDebugLog('jumpToEpisode_locked', { episode: index, missing: this.getUnlockStatus().missing });
+            return;
+        }
+        
+        this.enterEpisode(index, reconcilePath(this.graph, this.path, index));
+        
+        this.addDebugLog('jumpToEpisode', {
+            newEpisode: this.currentEpisode,
+            path: this.path,
+            highestEpisodeReached: this.highestEpisodeReached,
+            completed: this.isCompleted()
+        });
+    }
+    
+    /**
+     * Start a new playthrough from the first episode, keeping the current
+     * one with its path in the list of playthroughs. The new playthrough
+     * starts without the story so far: generated recaps, the replies they
+     * are built from and the continuity ledger are cleared, while recaps the
+     * user edited and ledger entries they removed are kept.
+     */
+    private rewatch(): void {
+        this.recordActivity();
+        
+        const now = Date.now();
+        this.playthroughs = restartPlaythrough(trackPath(this.playthroughs, this.path), now);
+        this.recaps = Object.fromEntries(Object.entries(this.recaps).filter(([, recap]) => recap.edited));
+        this.transcripts = {};
+        this.replyCounts = {};
+        this.ledger = restartLedger(this.ledger);
+        this.currentEpisode = 0;
+        this.path = [0];
+        this.unlockProgress = startProgress(now);
+        this.beforeReply = null;
+        this.episodeFinished = false;
+        this.recapPending = false;
+        this.stats = recordVisit(this.stats, 0, now);
+        
+        this.addDebugLog('rewatch', { playthrough: this.playthroughs.length });
+    }
+    
+    private getEpisodeStatus(index: number): EpisodeStatus {
+        if (index === this.currentEpisode) return 'current';
+        return this.visited.includes(index) ? 'watched' : 'unwatched';
+    }
+    
     private goToPreviousEpisode(): void {
-        if (this.currentEpisode > 0) {
-            this.currentEpisode--;
+        if (this.path.length > 1) {
+            this.recordActivity();
+            this.path = this.path.slice(0, -1);
+            this.currentEpisode = this.path[this.path.length - 1];
+            this.stats = recordVisit(this.stats, this.currentEpisode, Date.now());
+            this.unlockProgress = startProgress(Date.now());
+            this.beforeReply = null;
+            this.episodeFinished = false;
             
             this.addDebugLog('goToPreviousEpisode', {
-                newEpisode: this.currentEpisode
+                newEpisode: this.currentEpisode,
+                path: this.path
             });
         }
     }
@@ -321,213 +1219,142 @@ export class Stage extends StageBase<
     // Format timestamp for display
     private formatTime(timestamp: number): string {
         const date = new Date(timestamp);
-        return date.toLocaleTimeString('en-US', { 
+        return date.toLocaleTimeString(this.uiLocale, { 
             hour12: false, 
             hour: '2-digit', 
             minute: '2-digit', 
             second: '2-digit'
         });
     }
+
+    // Format a date and time for the statistics
+    private formatDate(timestamp: number): string {
+        return new Date(timestamp).toLocaleString(this.uiLocale, {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit'
+        });
+    }
     
-    // Get event color
-    private getEventColor(event: string): string {
-        if (event.includes('beforePrompt')) return '#4a9eff';
-        if (event.includes('afterResponse')) return '#4ade80';
-        if (event.includes('setState')) return '#f59e0b';
-        if (event.includes('constructor')) return '#a855f7';
-        if (event.includes('load')) return '#ec4899';
-        if (event.includes('Episode')) return '#06b6d4';
-        return '#94a3b8';
+    // Everything the panel shows, for the snapshot store
+    private buildSnapshot(): StageSnapshot {
+        const isLastEpisode = this.isEnding(this.currentEpisode);
+        const successors = this.getSuccessors(this.currentEpisode);
+        const unlockStatus = this.getUnlockStatus();
+        const { position, total } = pathProgress(this.graph, this.path);
+        const statsEntries: StatsPanelEntry[] = Object.keys(this.stats)
+            .map(Number)
+            .filter(index => this.isEpisode(index))
+            .sort((a, b) => a - b)
+            .map(index => ({ index, title: this.getEpisodeTitle(index), stats: this.stats[index] }));
+        const revisited = mostRevisited(this.stats);
+        
+        return {
+            theme: this.theme,
+            t: this.t,
+            layout: this.config.layout,
+            shortcuts: {
+                previous: this.config.shortcutPrevious,
+                next: this.config.shortcutNext,
+                episodes: this.config.shortcutEpisodes
+            },
+            currentEpisode: this.currentEpisode,
+            details: {
+                series: this.characterName,
+                episodeCount: this.totalEpisodes,
+                title: this.getEpisodeTitle(this.currentEpisode),
+                synopsis: this.episodes[this.currentEpisode]?.synopsis ?? null,
+                position,
+                total,
+                season: seasonProgress(this.episodes, this.graph, this.path),
+                episodeNumber: this.episodes[this.currentEpisode]?.episodeNumber ?? position,
+                showEpisodeNumber: this.config.showEpisodeNumber,
+                showProgress: this.config.showProgress
+            },
+            navigation: {
+                isFirstEpisode: this.path.length <= 1,
+                isLastEpisode,
+                completed: this.isCompleted(),
+                lockMessage: !unlockStatus.unlocked ? this.describeLock(unlockStatus) : null,
+                finished: this.episodeFinished && !isLastEpisode,
+                branches: successors.length > 1
+                    ? successors.map(index => ({ index, title: this.getEpisodeTitle(index) }))
+                    : [],
+                buttonText: this.config.buttonText
+            },
+            upNext: this.getUpNext(),
+            tracks: this.tracks.map(track => ({ id: track.id, name: track.name })),
+            activeTrack: this.activeTrack,
+            finale: isLastEpisode && this.isCompleted()
+                ? {
+                    playthroughNumber: this.playthroughs.length,
+                    path: this.path.map(index => ({
+                        index,
+                        title: this.getEpisodeTitle(index),
+                        timeSpent: this.stats[index]?.timeSpent ?? null
+                    })),
+                    earlier: this.playthroughs.slice(0, -1)
+                }
+                : null,
+            browser: {
+                entries: this.episodes.map(episode => ({
+                    index: episode.index,
+                    title: this.getEpisodeTitle(episode.index),
+                    synopsis: episode.synopsis,
+                    season: episode.season,
+                    episodeNumber: episode.episodeNumber,
+                    status: this.getEpisodeStatus(episode.index),
+                    spoiler: !this.visited.includes(episode.index),
+                    jumpable: this.canJumpTo(episode.index)
+                })),
+                spoilerMode: this.config.spoilerMode,
+                completedSeasons: this.completedSeasons
+            },
+            recaps: Object.keys(this.recaps)
+                .map(Number)
+                .sort((a, b) => a - b)
+                .map(index => ({
+                    index,
+                    title: this.getEpisodeTitle(index),
+                    text: this.recaps[index].text,
+                    edited: this.recaps[index].edited
+                })),
+            ledger: this.ledger.entries,
+            stats: {
+                entries: statsEntries,
+                seriesTime: totalWatchTime(this.stats),
+                chatTime: this.tracks.length > 1
+                    ? Object.values(this.buildChatState().tracks).reduce((sum, track) => sum + totalWatchTime(track.stats ?? {}), 0)
+                    : null,
+                mostRevisited: statsEntries.find(entry => entry.index === revisited) ?? null
+            },
+            cardIssues: this.cardIssues,
+            injection: this.config.showInjectionPreview
+                ? { text: this.buildInjection(null), target: this.config.injectionTarget }
+                : null,
+            debug: this.debugPanel
+                ? {
+                    redactByDefault: this.config.redactDebug,
+                    trace: this.trace
+                }
+                : null,
+            formatDate: (timestamp) => this.formatDate(timestamp),
+            formatTime: (timestamp) => this.formatTime(timestamp)
+        };
     }
-
+    
     render(): React.ReactElement {
-        const isFirstEpisode = this.currentEpisode === 0;
-        const isLastEpisode = this.currentEpisode >= this.totalEpisodes - 1;
-        const progress = ((this.currentEpisode + 1) / this.totalEpisodes) * 100;
-        const currentTitle = this.episodeTitles[this.currentEpisode] || `Episode ${this.currentEpisode + 1}`;
-        
         return (
-            <div style={{
-                display: 'flex',
-                flexDirection: 'column',
-                height: '100%',
-                padding: '12px',
-                backgroundColor: '#141414',
-                color: '#ffffff',
-                fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
-                boxSizing: 'border-box',
-                overflow: 'hidden'
-            }}>
-                {/* Header */}
-                <div style={{
-                    fontSize: '10px',
-                    textTransform: 'uppercase',
-                    letterSpacing: '1px',
-                    opacity: 0.7,
-                    marginBottom: '4px'
-                }}>
-                    {this.characterName}
-                </div>
-                
-                {/* Episode title */}
-                <div style={{
-                    fontSize: '14px',
-                    fontWeight: 'bold',
-                    marginBottom: '8px',
-                    lineHeight: '1.3'
-                }}>
-                    {currentTitle}
-                </div>
-                
-                {/* Episode number & progress */}
-                {this.config.showEpisodeNumber && (
-                    <div style={{
-                        fontSize: '12px',
-                        opacity: 0.8,
-                        marginBottom: '8px'
-                    }}>
-                        Episode {this.currentEpisode + 1} of {this.totalEpisodes}
-                    </div>
-                )}
-                
-                {this.config.showProgress && (
-                    <div style={{ marginBottom: '12px' }}>
-                        <div style={{
-                            height: '3px',
-                            backgroundColor: 'rgba(255,255,255,0.2)',
-                            borderRadius: '2px',
-                            overflow: 'hidden'
-                        }}>
-                            <div style={{
-                                height: '100%',
-                                width: `${progress}%`,
-                                backgroundColor: '#e50914',
-                                borderRadius: '2px',
-                                transition: 'width 0.3s ease'
-                            }} />
-                        </div>
-                    </div>
-                )}
-                
-                {/* Navigation buttons */}
-                <div style={{
-                    display: 'flex',
-                    gap: '6px',
-                    marginBottom: '12px'
-                }}>
-                    <button
-                        onClick={() => this.goToPreviousEpisode()}
-                        disabled={isFirstEpisode}
-                        style={{
-                            flex: 1,
-                            padding: '8px',
-                            fontSize: '11px',
-                            fontWeight: '600',
-                            border: 'none',
-                            borderRadius: '4px',
-                            cursor: isFirstEpisode ? 'not-allowed' : 'pointer',
-                            backgroundColor: isFirstEpisode ? '#444' : '#e50914',
-                            color: '#ffffff',
-                            opacity: isFirstEpisode ? 0.5 : 1
-                        }}
-                    >
-                        ← Prev
-                    </button>
-                    
-                    <button
-                        onClick={() => this.goToNextEpisode()}
-                        disabled={isLastEpisode}
-                        style={{
-                            flex: 2,
-                            padding: '8px',
-                            fontSize: '11px',
-                            fontWeight: '600',
-                            border: 'none',
-                            borderRadius: '4px',
-                            cursor: isLastEpisode ? 'not-allowed' : 'pointer',
-                            backgroundColor: isLastEpisode ? '#444' : '#e50914',
-                            color: '#ffffff',
-                            opacity: isLastEpisode ? 0.5 : 1
-                        }}
-                    >
-                        {isLastEpisode ? 'Final' : 'Next →'}
-                    </button>
-                </div>
-                
-                {/* Debug Log Section */}
-                <div style={{
-                    flex: 1,
-                    display: 'flex',
-                    flexDirection: 'column',
-                    minHeight: 0,
-                    borderTop: '1px solid #333',
-                    paddingTop: '8px'
-                }}>
-                    <div style={{
-                        fontSize: '10px',
-                        fontWeight: 'bold',
-                        marginBottom: '6px',
-                        color: '#888'
-                    }}>
-                        DEBUG LOG ({this.debugLog.length} events)
-                    </div>
-                    
-                    <div style={{
-                        flex: 1,
-                        overflow: 'auto',
-                        backgroundColor: '#0a0a0a',
-                        borderRadius: '4px',
-                        padding: '6px',
-                        fontSize: '9px',
-                        fontFamily: 'monospace'
-                    }}>
-                        {this.debugLog.length === 0 ? (
-                            <div style={{ color: '#666', textAlign: 'center', padding: '10px' }}>
-                                Waiting for events...
-                            </div>
-                        ) : (
-                            [...this.debugLog].reverse().map((entry, index) => (
-                                <div 
-                                    key={this.debugLog.length - 1 - index}
-                                    style={{
-                                        marginBottom: '8px',
-                                        paddingBottom: '8px',
-                                        borderBottom: '1px solid #222'
-                                    }}
-                                >
-                                    <div style={{ 
-                                        display: 'flex', 
-                                        alignItems: 'center', 
-                                        gap: '4px',
-                                        marginBottom: '4px'
-                                    }}>
-                                        <span style={{ color: '#666' }}>
-                                            {this.formatTime(entry.timestamp)}
-                                        </span>
-                                        <span style={{
-                                            color: this.getEventColor(entry.event),
-                                            fontWeight: 'bold'
-                                        }}>
-                                            {entry.event}
-                                        </span>
-                                    </div>
-                                    <pre style={{
-                                        margin: 0,
-                                        whiteSpace: 'pre-wrap',
-                                        wordBreak: 'break-all',
-                                        color: '#ccc',
-                                        lineHeight: '1.3',
-                                        maxHeight: '150px',
-                                        overflow: 'auto'
-                                    }}>
-                                        {JSON.stringify(entry.data, null, 1)}
-                                    </pre>
-                                </div>
-                            ))
-                        )}
-                    </div>
-                </div>
-            </div>
+            <StageView
+                snapshot={this.snapshot}
+                debugLog={this.debugLog}
+                onAction={(action) => {
+                    this.performAction(action).catch(error => {
+                        this.addDebugLog('performAction_failed', { action, error: String(error) });
+                    });
+                }}
+            />
         );
     }
 }
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import { ThemeTokens, VISUALLY_HIDDEN } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { Store, useStore } from './store';
+import { LayoutSetting } from './layout';
+import { ResponsiveLayout } from './ResponsiveLayout';
+import { KeyboardShortcuts } from './KeyboardShortcuts';
+import { EpisodeDetailsState, NavigationState, canGoNext } from './episodeView';
+import { ariaShortcut } from './shortcuts';
+import { EpisodeDetails } from './EpisodeDetails';
+import { EpisodeControls } from './EpisodeControls';
+import { EpisodeRibbon } from './EpisodeRibbon';
+import { UpNextCard } from './UpNextCard';
+import { SeriesPicker, SeriesPickerTrack } from './SeriesPicker';
+import { FinaleEntry, FinaleScreen } from './FinaleScreen';
+import { EpisodeBrowser, EpisodeBrowserEntry, SpoilerMode } from './EpisodeBrowser';
+import { RecapPanel, RecapPanelEntry } from './RecapPanel';
+import { LedgerPanel } from './LedgerPanel';
+import { StatsPanel, StatsPanelEntry } from './StatsPanel';
+import { CardIssues } from './CardIssues';
+import { InjectionPreview } from './InjectionPreview';
+import { DebugPanel } from './DebugPanel';
+import { LedgerEntry } from './continuity';
+import { CardIssue } from './characterCard';
+import { InjectionTarget } from './contextTemplate';
+import { Playthrough } from './playthroughs';
+import { UpNext } from './upNext';
+import { DebugLogEntry } from './debugLog';
+import { StageAction, Trace } from './trace';
+
+/**
+ * Root of the stage UI.
+ *
+ * The stage publishes a snapshot of everything its panel shows to a
+ * store after each lifecycle call and action; this component subscribes
+ * to it and lays the panel out for the space it has. Clicks and
+ * shortcuts go back to the stage as actions. The debug log has a store
+ * of its own, so logging doesn't rebuild the snapshot.
+ */
+
+export type StageSnapshot = {
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    layout: LayoutSetting;
+    shortcuts: {
+        previous: string;
+        next: string;
+        episodes: string;
+    };
+    currentEpisode: number;
+    details: EpisodeDetailsState;
+    navigation: NavigationState;
+    /** Teaser for the next episode, once the current one is finished */
+    upNext: UpNext | null;
+    tracks: SeriesPickerTrack[];
+    activeTrack: string;
+    /** End credits, once a playthrough reaches an ending */
+    finale: {
+        playthroughNumber: number;
+        path: FinaleEntry[];
+        earlier: Playthrough[];
+    } | null;
+    browser: {
+        entries: EpisodeBrowserEntry[];
+        spoilerMode: SpoilerMode;
+        completedSeasons: number[];
+    };
+    recaps: RecapPanelEntry[];
+    ledger: LedgerEntry[];
+    stats: {
+        entries: StatsPanelEntry[];
+        seriesTime: number;
+        chatTime: number | null;
+        mostRevisited: StatsPanelEntry | null;
+    };
+    cardIssues: CardIssue[];
+    /** What the next prompt will be given, unless the preview is turned off */
+    injection: {
+        text: string | null;
+        target: InjectionTarget;
+    } | null;
+    /** Present while the debug panel is shown */
+    debug: {
+        redactByDefault: boolean;
+        trace: Trace | null;
+    } | null;
+    formatDate: (timestamp: number) => string;
+    formatTime: (timestamp: number) => string;
+};
+
+type StageViewProps = {
+    snapshot: Store<StageSnapshot>;
+    debugLog: Store<DebugLogEntry[]>;
+    onAction: (action: StageAction) => void;
+};
+
+export const StageView: React.FC<StageViewProps> = ({ snapshot, debugLog, onAction }) => {
+    const view = useStore(snapshot);
+    const { theme, t, details, navigation, shortcuts } = view;
+    const isBranching = navigation.branches.length > 0;
+    // The ribbon has no room for the episode list, so it takes the row's place while open
+    const [ribbonBrowser, setRibbonBrowser] = useState(false);
+
+    const next = (target?: number) => onAction(target === undefined ? { type: 'next' } : { type: 'next', target });
+
+    const picker = (
+        <SeriesPicker
+            tracks={view.tracks}
+            activeTrack={view.activeTrack}
+            theme={theme}
+            t={t}
+            onSwitch={(track) => onAction({ type: 'switchTrack', track })}
+        />
+    );
+
+    // Keyed by episode so a new teaser starts its countdown afresh
+    const upNextCard = (compact: boolean) => view.upNext && (
+        <UpNextCard
+            key={`${view.currentEpisode}-${view.upNext.index}`}
+            upNext={view.upNext}
+            compact={compact}
+            theme={theme}
+            t={t}
+            onPlay={() => next()}
+        />
+    );
+
+    const finale = (compact: boolean) => view.finale && (
+        <FinaleScreen
+            series={details.series}
+            playthroughNumber={view.finale.playthroughNumber}
+            path={view.finale.path}
+            earlier={view.finale.earlier}
+            compact={compact}
+            theme={theme}
+            t={t}
+            formatDate={view.formatDate}
+            onRewatch={() => onAction({ type: 'rewatch' })}
+        />
+    );
+
+    const controls = (
+        <>
+            <EpisodeDetails details={details} finished={navigation.finished} theme={theme} t={t} />
+
+            <EpisodeControls
+                navigation={navigation}
+                shortcutPrevious={shortcuts.previous}
+                shortcutNext={shortcuts.next}
+                theme={theme}
+                t={t}
+                onPrevious={() => onAction({ type: 'previous' })}
+                onNext={next}
+            />
+
+            {upNextCard(false)}
+
+            {finale(false)}
+        </>
+    );
+
+    // Episode browser; in the wide layout it sits beside the details, open and full height
+    const browser = (sidebar: boolean, onJumped?: () => void) => (
+        <EpisodeBrowser
+            entries={view.browser.entries}
+            sidebar={sidebar}
+            spoilerMode={view.browser.spoilerMode}
+            completedSeasons={view.browser.completedSeasons}
+            shortcut={shortcuts.episodes}
+            theme={theme}
+            t={t}
+            onJump={(index) => {
+                onAction({ type: 'jump', index });
+                onJumped?.();
+            }}
+        />
+    );
+
+    const panels = (
+        <>
+            {/* Episode recaps */}
+            <RecapPanel
+                entries={view.recaps}
+                theme={theme}
+                t={t}
+                onSave={(index, text) => onAction({ type: 'editRecap', index, text })}
+            />
+
+            {/* Continuity ledger */}
+            <LedgerPanel
+                entries={view.ledger}
+                theme={theme}
+                t={t}
+                onAdd={(kind, text) => onAction({ type: 'addLedgerEntry', kind, text })}
+                onEdit={(id, text) => onAction({ type: 'editLedgerEntry', id, text })}
+                onRemove={(id) => onAction({ type: 'removeLedgerEntry', id })}
+            />
+
+            {/* Viewing statistics */}
+            <StatsPanel
+                entries={view.stats.entries}
+                seriesTime={view.stats.seriesTime}
+                chatTime={view.stats.chatTime}
+                mostRevisited={view.stats.mostRevisited}
+                theme={theme}
+                t={t}
+                formatDate={view.formatDate}
+            />
+
+            <CardIssues issues={view.cardIssues} theme={theme} t={t} />
+
+            {/* What the next prompt will be given, for creators */}
+            {view.injection && (
+                <InjectionPreview
+                    text={view.injection.text}
+                    target={view.injection.target}
+                    theme={theme}
+                    t={t}
+                />
+            )}
+
+            {view.debug && (
+                <DebugPanel
+                    log={debugLog}
+                    redactByDefault={view.debug.redactByDefault}
+                    trace={view.debug.trace}
+                    theme={theme}
+                    t={t}
+                    formatTime={view.formatTime}
+                />
+            )}
+        </>
+    );
+
+    return (
+        <ResponsiveLayout setting={view.layout}>
+            {(layout) => (
+                <div data-episode={view.currentEpisode + 1} style={{
+                    ['--chubflix-accent' as string]: theme.accent,
+                    display: 'flex',
+                    flexDirection: layout === 'column' ? 'column' : 'row',
+                    alignItems: layout === 'ribbon' ? 'center' : 'stretch',
+                    gap: layout === 'column' ? 0 : '12px',
+                    height: '100%',
+                    padding: layout === 'ribbon' ? '6px 12px' : '12px',
+                    backgroundColor: theme.background,
+                    color: theme.text,
+                    fontFamily: theme.fontFamily,
+                    boxSizing: 'border-box',
+                    overflow: 'hidden'
+                }}>
+                    <KeyboardShortcuts bindings={[
+                        {
+                            shortcut: shortcuts.previous,
+                            onPress: () => { if (!navigation.isFirstEpisode) onAction({ type: 'previous' }); }
+                        },
+                        {
+                            shortcut: shortcuts.next,
+                            onPress: () => { if (canGoNext(navigation) && !isBranching) next(); }
+                        },
+                        // Elsewhere the episode list handles its own shortcut
+                        ...(layout === 'ribbon' ? [{
+                            shortcut: shortcuts.episodes,
+                            onPress: () => setRibbonBrowser(!ribbonBrowser)
+                        }] : [])
+                    ]} />
+
+                    {/* Announces the episode to screen readers when it changes */}
+                    <div aria-live="polite" aria-atomic="true" style={VISUALLY_HIDDEN}>
+                        {t('announceEpisode', { title: details.title, current: details.position, total: details.total })}
+                    </div>
+
+                    {layout === 'ribbon' && (
+                        <>
+                            <button
+                                onClick={() => setRibbonBrowser(!ribbonBrowser)}
+                                aria-label={t('episodes')}
+                                aria-expanded={ribbonBrowser}
+                                aria-keyshortcuts={ariaShortcut(shortcuts.episodes)}
+                                style={{
+                                    flexShrink: 0,
+                                    padding: '4px 6px',
+                                    border: 'none',
+                                    borderRadius: theme.radius,
+                                    background: 'none',
+                                    color: theme.textMuted,
+                                    fontSize: '14px',
+                                    cursor: 'pointer'
+                                }}
+                            >
+                                <span aria-hidden="true">☰</span>
+                            </button>
+                            {ribbonBrowser ? (
+                                <div style={{ flex: 1, minWidth: 0, alignSelf: 'stretch', overflowY: 'auto' }}>
+                                    {browser(true, () => setRibbonBrowser(false))}
+                                </div>
+                            ) : view.finale ? finale(true) : (
+                                <EpisodeRibbon
+                                    details={details}
+                                    navigation={navigation}
+                                    shortcutNext={shortcuts.next}
+                                    theme={theme}
+                                    t={t}
+                                    onNext={next}
+                                    upNext={upNextCard(true)}
+                                />
+                            )}
+                        </>
+                    )}
+
+                    {/* Controls stay put while the panels below them scroll */}
+                    {layout === 'column' && (
+                        <>
+                            {picker}
+                            {controls}
+                            <div style={{ flex: 1, minHeight: 0, overflowY: 'auto', display: 'flex', flexDirection: 'column' }}>
+                                {browser(false)}
+                                {panels}
+                            </div>
+                        </>
+                    )}
+
+                    {layout === 'wide' && (
+                        <>
+                            <div style={{ flex: 3, minWidth: 0, overflowY: 'auto', display: 'flex', flexDirection: 'column' }}>
+                                {picker}
+                                {controls}
+                                {panels}
+                            </div>
+                            <div style={{ flex: 2, minWidth: 0, overflowY: 'auto' }}>
+                                {browser(true)}
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </ResponsiveLayout>
+    );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ThemeTokens } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { EpisodeStats, averageReplyLength, formatDuration } from './stats';
+
+/**
+ * Viewing statistics panel for the stage UI.
+ *
+ * Shows the watch time of the series and of the whole chat, the most
+ * revisited episode, and a per-episode breakdown of time, messages,
+ * reply length, swipes and visits.
+ */
+
+export type StatsPanelEntry = {
+    index: number;
+    title: string;
+    stats: EpisodeStats;
+};
+
+type StatsPanelProps = {
+    entries: StatsPanelEntry[];
+    /** Watch time of the series being watched */
+    seriesTime: number;
+    /** Watch time of every series in the chat, when there are several */
+    chatTime: number | null;
+    mostRevisited: StatsPanelEntry | null;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    formatDate: (timestamp: number) => string;
+};
+
+export const StatsPanel: React.FC<StatsPanelProps> = ({ entries, seriesTime, chatTime, mostRevisited, theme, t, formatDate }) => {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div style={{ marginBottom: '12px' }}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                aria-expanded={expanded}
+                style={{
+                    width: '100%',
+                    padding: 0,
+                    border: 'none',
+                    background: 'none',
+                    color: theme.textMuted,
+                    fontSize: '10px',
+                    fontWeight: 'bold',
+                    textAlign: 'left',
+                    cursor: 'pointer'
+                }}
+            >
+                <span aria-hidden="true">{expanded ? '▾' : '▸'}</span> {t('statistics')}
+            </button>
+
+            {expanded && (
+                <div style={{ marginTop: '6px', maxHeight: '200px', overflow: 'auto', fontSize: '11px' }}>
+                    {entries.length === 0 ? (
+                        <div style={{ color: theme.textMuted, fontStyle: 'italic' }}>{t('statsEmpty')}</div>
+                    ) : (
+                        <>
+                            <div style={{ marginBottom: '2px' }}>{t('statsWatchTime', { time: formatDuration(seriesTime, t) })}</div>
+                            {chatTime !== null && (
+                                <div style={{ marginBottom: '2px', color: theme.textMuted }}>
+                                    {t('statsChatWatchTime', { time: formatDuration(chatTime, t) })}
+                                </div>
+                            )}
+                            {mostRevisited && (
+                                <div style={{ marginBottom: '2px', color: theme.textMuted }}>
+                                    {t('statsMostRevisited', { title: mostRevisited.title, count: mostRevisited.stats.visits })}
+                                </div>
+                            )}
+
+                            {entries.map(entry => (
+                                <div key={entry.index} style={{ marginTop: '8px' }}>
+                                    <div style={{ fontWeight: 'bold' }}>{entry.title}</div>
+                                    <div style={{ color: theme.textMuted, lineHeight: '1.4' }}>
+                                        {[
+                                            formatDuration(entry.stats.timeSpent, t),
+                                            t('statsMessages', { user: entry.stats.userMessages, bot: entry.stats.botMessages }),
+                                            entry.stats.botMessages > 0 && t('statsAverageReply', { count: averageReplyLength(entry.stats) }),
+                                            entry.stats.swipes > 0 && t('statsSwipes', { count: entry.stats.swipes }),
+                                            t('statsVisits', { count: entry.stats.visits })
+                                        ].filter(Boolean).join(' · ')}
+                                    </div>
+                                    {entry.stats.firstVisit !== null && entry.stats.lastVisit !== null && (
+                                        <div style={{ color: theme.textMuted, fontSize: '10px' }}>
+                                            {t('statsVisited', {
+                                                first: formatDate(entry.stats.firstVisit),
+                                                last: formatDate(entry.stats.lastVisit)
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,49 +1,162 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Stage, DebugLogEntry } from './Stage';
+import { Stage } from './Stage';
+import { DebugLogEntry, downloadJson, eventColor } from './debugLog';
+import { StepResult, Trace, exportTrace, parseTrace, replayStep } from './trace';
+import { buildInitData, readCardFile } from './cardImport';
+import { normalizeCharacter } from './characterCard';
 import testInitData from './assets/test-init.json';
 
+// Cards loaded recently, kept in local storage
+type RecentCard = {
+    name: string;
+    loadedAt: number;
+    init: Record<string, unknown>;
+};
+
+// The data the stage is constructed with
+type StageInit = ConstructorParameters<typeof Stage>[0];
+
+const RECENT_CARDS_KEY = 'chubflix-testrunner-recent-cards';
+const MAX_RECENT_CARDS = 5;
+
+function readRecentCards(): RecentCard[] {
+    try {
+        return JSON.parse(localStorage.getItem(RECENT_CARDS_KEY) || '[]');
+    } catch {
+        return [];
+    }
+}
+
 /**
  * TestRunner for local development of the Next Episode stage
  * 
  * This component simulates the Chub chat environment for testing.
  * It provides controls to simulate various chat events and displays
- * debug output from all stage lifecycle events.
+ * debug output from all stage lifecycle events. Recorded traces can be
+ * loaded and replayed against a fresh stage, and character cards (JSON or
+ * PNG) can be dropped in to preview a real show.
  */
 export const TestRunner: React.FC = () => {
     const [stage, setStage] = useState<Stage | null>(null);
-    const [renderKey, setRenderKey] = useState(0);
     const [debugLog, setDebugLog] = useState<DebugLogEntry[]>([]);
     const [userInput, setUserInput] = useState('');
     const [aiInput, setAiInput] = useState('');
+    const [trace, setTrace] = useState<Trace | null>(null);
+    const [replayResults, setReplayResults] = useState<StepResult[]>([]);
+    const [traceError, setTraceError] = useState<string | null>(null);
+    const [initData, setInitData] = useState<Record<string, unknown>>(testInitData);
+    const [recentCards, setRecentCards] = useState<RecentCard[]>(readRecentCards);
+    const [cardError, setCardError] = useState<string | null>(null);
     
-    // Force re-render
-    const forceRender = useCallback(() => {
-        setRenderKey(prev => prev + 1);
-    }, []);
-
-    const updateDebugLog = () => {
-        if (stage) {
-            setDebugLog(stage.getDebugLog());
-        }
-    }
-
-    // Initialize the stage
+    // The stage's panel updates itself; only the log shown here follows it
     useEffect(() => {
-        const initData = testInitData as any;
-        const stageInstance = new Stage(initData);
-        
-        // Set up debug update callback
-        stageInstance.onDebugUpdate = () => {
-            updateDebugLog();
-            forceRender();
-        };
+        if (!stage) return;
+        setDebugLog(stage.getDebugLog());
+        return stage.subscribeDebugLog(() => setDebugLog(stage.getDebugLog()));
+    }, [stage]);
+
+    // Build and load a fresh stage, dropping any replay in progress
+    const startStage = useCallback((init: Record<string, unknown>) => {
+        const stageInstance = new Stage(init as any);
         
         // Load the stage
         stageInstance.load().then(() => {
             setStage(stageInstance);
-            updateDebugLog();
+            setInitData(init);
+            setTrace(null);
+            setReplayResults([]);
         });
-    }, [forceRender]);
+    }, []);
+
+    // Initialize the stage
+    useEffect(() => {
+        startStage(testInitData);
+    }, [startStage]);
+    
+    const rememberCard = (card: RecentCard) => {
+        const updated = [card, ...recentCards.filter(recent => recent.name !== card.name)].slice(0, MAX_RECENT_CARDS);
+        setRecentCards(updated);
+        try {
+            localStorage.setItem(RECENT_CARDS_KEY, JSON.stringify(updated));
+        } catch {
+            // Storage full or unavailable; the list just isn't kept
+        }
+    };
+    
+    // Build init data from a character card file (JSON or PNG)
+    const importCard = async (file: File) => {
+        try {
+            const raw = readCardFile(new Uint8Array(await file.arrayBuffer()));
+            // Field problems are listed in the stage's card issues panel
+            const { character } = normalizeCharacter('imported', raw);
+            if (!character) {
+                throw new Error('Not a character card');
+            }
+            const init = buildInitData(raw, testInitData);
+            startStage(init);
+            rememberCard({ name: character.name, loadedAt: Date.now(), init });
+            setCardError(null);
+        } catch (error) {
+            setCardError(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+    
+    const loadCardFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) importCard(file);
+    };
+    
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        const file = e.dataTransfer.files[0];
+        if (file) importCard(file);
+    };
+    
+    // Save the current session's trace, with its text so it replays as recorded
+    const saveTrace = () => {
+        const recorded = stage?.getTrace();
+        if (recorded) {
+            downloadJson(`chubflix-trace-${Date.now()}.json`, exportTrace(recorded, false));
+        }
+    };
+    
+    // Start a replay: a fresh stage built from the trace's init data. The
+    // trace's first step loads it. Traces from a live chat would otherwise
+    // wait on a host that isn't there every time the stage saves.
+    const startReplay = (loaded: Trace) => {
+        setStage(new Stage({ ...(loaded.init as StageInit), environment: 'testing' }));
+        setInitData(loaded.init as Record<string, unknown>);
+        setTrace(loaded);
+        setReplayResults([]);
+    };
+    
+    const loadTraceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        
+        try {
+            startReplay(parseTrace(await file.text()));
+            setTraceError(null);
+        } catch (error) {
+            setTraceError(error instanceof Error ? error.message : String(error));
+        }
+    };
+    
+    // Replay the next step, or every remaining step
+    const replay = async (all: boolean) => {
+        if (!stage || !trace) return;
+        
+        const results = [...replayResults];
+        do {
+            const index = results.length;
+            if (index >= trace.steps.length) break;
+            results.push(await replayStep(stage, trace.steps[index], index));
+        } while (all);
+        
+        setReplayResults(results);
+    };
     
     // Simulate beforePrompt (user sends a message)
     const simulateBeforePrompt = async () => {
@@ -55,9 +168,7 @@ export const TestRunner: React.FC = () => {
                 name: 'User'
             } as any);
 
-            updateDebugLog();
             setUserInput(''); // Clear input after sending
-            forceRender();
         }
     };
     
@@ -71,9 +182,7 @@ export const TestRunner: React.FC = () => {
                 name: 'Sofia Mendes'
             } as any);
 
-            updateDebugLog();
             setAiInput(''); // Clear input after sending
-            forceRender();
         }
     };
     
@@ -84,18 +193,12 @@ export const TestRunner: React.FC = () => {
                 currentEpisode: episodeIndex,
                 startedAt: Date.now()
             });
-
-            updateDebugLog();
-            forceRender();
         }
     };
     
     // Clear debug log
     const clearDebugLog = () => {
-        if (stage) {
-            stage.clearDebugLog();
-            setDebugLog([]);
-        }
+        stage?.clearDebugLog();
     };
     
     // Handle Enter key for inputs
@@ -124,16 +227,16 @@ export const TestRunner: React.FC = () => {
         });
     };
     
-    // Get event color
-    const getEventColor = (event: string) => {
-        if (event.includes('beforePrompt')) return '#4a9eff';
-        if (event.includes('afterResponse')) return '#4ade80';
-        if (event.includes('setState')) return '#f59e0b';
-        if (event.includes('constructor')) return '#a855f7';
-        if (event.includes('load')) return '#ec4899';
-        if (event.includes('Episode')) return '#06b6d4';
-        return '#94a3b8';
-    };
+    const traceButton = (color: string): React.CSSProperties => ({
+        padding: '8px 16px',
+        fontSize: '14px',
+        cursor: 'pointer',
+        backgroundColor: color,
+        color: '#000',
+        border: 'none',
+        borderRadius: '4px',
+        fontWeight: 'bold'
+    });
     
     if (!stage) {
         return (
@@ -150,12 +253,18 @@ export const TestRunner: React.FC = () => {
         );
     }
     
+    const characters = Object.values((initData.characters || {}) as Record<string, { name?: string }>);
+    
     return (
-        <div style={{
-            display: 'flex',
-            height: '100vh',
-            backgroundColor: '#0a0a0a'
-        }}>
+        <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+            style={{
+                display: 'flex',
+                height: '100vh',
+                backgroundColor: '#0a0a0a'
+            }}
+        >
             {/* Stage preview */}
             <div style={{
                 width: '320px',
@@ -163,9 +272,7 @@ export const TestRunner: React.FC = () => {
                 borderRight: '1px solid #333',
                 flexShrink: 0
             }}>
-                <div key={renderKey} style={{ height: '100%' }}>
-                    {stage.render()}
-                </div>
+                {stage.render()}
             </div>
             
             {/* Test controls and debug output */}
@@ -181,6 +288,55 @@ export const TestRunner: React.FC = () => {
                     Next Episode Stage - Debug Runner
                 </h1>
                 
+                {/* Character Card */}
+                <div style={{ marginBottom: '20px' }}>
+                    <h2 style={{ fontSize: '16px', marginBottom: '12px' }}>
+                        Character Card: {characters.map(character => character.name).join(', ') || 'none'}
+                        {' '}
+                        <span style={{ fontSize: '12px', color: '#aaa', fontWeight: 'normal' }}>
+                            ({stage.getEpisodeCount()} episodes)
+                        </span>
+                    </h2>
+                    <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', alignItems: 'center' }}>
+                        <label style={{ ...traceButton('#4a9eff'), display: 'inline-block' }}>
+                            Load Card
+                            <input type="file" accept=".json,.png,application/json,image/png" onChange={loadCardFile} style={{ display: 'none' }} />
+                        </label>
+                        <button onClick={() => startStage(testInitData)} style={{ ...traceButton('#333'), color: '#fff' }}>
+                            Sample Card
+                        </button>
+                        <span style={{ fontSize: '12px', color: '#aaa' }}>
+                            or drop a card JSON/PNG anywhere on the page
+                        </span>
+                    </div>
+                    {cardError && (
+                        <div style={{ marginTop: '8px', fontSize: '12px', color: '#ef4444' }}>{cardError}</div>
+                    )}
+                    {recentCards.length > 0 && (
+                        <div style={{ marginTop: '10px', display: 'flex', gap: '6px', flexWrap: 'wrap', alignItems: 'center' }}>
+                            <span style={{ fontSize: '12px', color: '#aaa' }}>Recent:</span>
+                            {recentCards.map(card => (
+                                <button
+                                    key={card.name}
+                                    onClick={() => startStage(card.init)}
+                                    title={new Date(card.loadedAt).toLocaleString()}
+                                    style={{
+                                        padding: '4px 10px',
+                                        fontSize: '12px',
+                                        cursor: 'pointer',
+                                        backgroundColor: '#1a1a1a',
+                                        color: '#fff',
+                                        border: '1px solid #333',
+                                        borderRadius: '4px'
+                                    }}
+                                >
+                                    {card.name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                
                 {/* Message Inputs */}
                 <div style={{ marginBottom: '20px' }}>
                     <h2 style={{ fontSize: '16px', marginBottom: '12px' }}>Send Messages</h2>
@@ -288,7 +444,7 @@ export const TestRunner: React.FC = () => {
                 <div style={{ marginBottom: '20px' }}>
                     <h2 style={{ fontSize: '16px', marginBottom: '12px' }}>Swipe / Jump to Episode (setState)</h2>
                     <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
-                        {[0, 1, 2, 3, 4, 5, 6].map(i => (
+                        {Array.from({ length: stage.getEpisodeCount() }, (_, i) => i).map(i => (
                             <button
                                 key={i}
                                 onClick={() => simulateSetState(i)}
@@ -309,6 +465,82 @@ export const TestRunner: React.FC = () => {
                     </div>
                 </div>
                 
+                {/* Trace Record / Replay */}
+                <div style={{ marginBottom: '20px' }}>
+                    <h2 style={{ fontSize: '16px', marginBottom: '12px' }}>Trace Record / Replay</h2>
+                    <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', alignItems: 'center' }}>
+                        <button onClick={saveTrace} disabled={!stage.getTrace()} style={traceButton('#a855f7')}>
+                            Save Trace
+                        </button>
+                        <label style={{ ...traceButton('#333'), color: '#fff' }}>
+                            Load Trace
+                            <input type="file" accept="application/json,.json" onChange={loadTraceFile} style={{ display: 'none' }} />
+                        </label>
+                        {trace && (
+                            <>
+                                <button
+                                    onClick={() => replay(false)}
+                                    disabled={replayResults.length >= trace.steps.length}
+                                    style={traceButton('#06b6d4')}
+                                >
+                                    Step
+                                </button>
+                                <button
+                                    onClick={() => replay(true)}
+                                    disabled={replayResults.length >= trace.steps.length}
+                                    style={traceButton('#06b6d4')}
+                                >
+                                    Run All
+                                </button>
+                                <button onClick={() => startReplay(trace)} style={traceButton('#ef4444')}>
+                                    Reset
+                                </button>
+                                <span style={{ fontSize: '12px', color: '#aaa' }}>
+                                    Step {replayResults.length} / {trace.steps.length}
+                                    {' · '}
+                                    {replayResults.filter(result => result.differences.length > 0).length} differing
+                                </span>
+                            </>
+                        )}
+                    </div>
+                    {traceError && (
+                        <div style={{ marginTop: '8px', fontSize: '12px', color: '#ef4444' }}>{traceError}</div>
+                    )}
+                    {trace && (trace.dropped ?? 0) > 0 && (
+                        <div style={{ marginTop: '8px', fontSize: '12px', color: '#f59e0b' }}>
+                            The first {trace.dropped} steps were dropped while recording, so replay starts
+                            without them and early steps may differ.
+                        </div>
+                    )}
+                    {replayResults.length > 0 && (
+                        <div style={{
+                            marginTop: '10px',
+                            backgroundColor: '#1a1a1a',
+                            padding: '10px',
+                            borderRadius: '4px',
+                            maxHeight: '200px',
+                            overflow: 'auto',
+                            fontSize: '11px',
+                            fontFamily: 'monospace'
+                        }}>
+                            {replayResults.map(result => (
+                                <div key={result.index} style={{ marginBottom: '6px' }}>
+                                    <span style={{ color: result.differences.length > 0 ? '#ef4444' : '#4ade80' }}>
+                                        {result.differences.length > 0 ? '✗' : '✓'}
+                                    </span>
+                                    {' '}#{result.index + 1}{' '}
+                                    <span style={{ color: eventColor(result.type) }}>{result.type}</span>
+                                    {result.differences.map(difference => (
+                                        <div key={difference.path} style={{ paddingLeft: '16px', color: '#ccc' }}>
+                                            {difference.path}: {JSON.stringify(difference.recorded)} → {JSON.stringify(difference.actual)}
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                
                 {/* Test Data */}
                 <div style={{ marginBottom: '20px' }}>
                     <h2 style={{ fontSize: '16px', marginBottom: '12px' }}>Test Data</h2>
@@ -321,7 +553,7 @@ export const TestRunner: React.FC = () => {
                         fontSize: '11px',
                         margin: 0
                     }}>
-                        {JSON.stringify(testInitData, null, 2)}
+                        {JSON.stringify(initData, null, 2)}
                     </pre>
                 </div>
                 
@@ -371,7 +603,7 @@ export const TestRunner: React.FC = () => {
                         ) : (
                             [...debugLog].reverse().map((entry, index) => (
                                 <div 
-                                    key={debugLog.length - 1 - index}
+                                    key={entry.id}
                                     style={{
                                         marginBottom: '12px',
                                         paddingBottom: '12px',
@@ -394,8 +626,8 @@ export const TestRunner: React.FC = () => {
                                         <span style={{
                                             fontSize: '12px',
                                             fontWeight: 'bold',
-                                            color: getEventColor(entry.event),
-                                            backgroundColor: `${getEventColor(entry.event)}20`,
+                                            color: eventColor(entry.event),
+                                            backgroundColor: `${eventColor(entry.event)}20`,
                                             padding: '2px 8px',
                                             borderRadius: '4px'
                                         }}>
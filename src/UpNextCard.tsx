@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ThemeTokens, VISUALLY_HIDDEN } from './themes';
+import { Translate, UiMessageKey } from './i18n';
+import { UpNext } from './upNext';
+
+/**
+ * Up Next card for the stage UI.
+ *
+ * Shown once the current episode is finished: the next episode's title
+ * and the opening of its greeting, with a Play now button. When a
+ * countdown is set it ticks down once a second and plays the episode at
+ * zero, unless the user cancels it first. Screen readers hear when the
+ * countdown starts and when it is cancelled, not every second of it.
+ * The compact variant fits the ribbon: title and countdown in one row,
+ * leaving Play to the ribbon's Next button.
+ */
+
+type UpNextCardProps = {
+    upNext: UpNext;
+    theme: ThemeTokens;
+    t: Translate<UiMessageKey>;
+    onPlay: () => void;
+    compact?: boolean;
+};
+
+export const UpNextCard: React.FC<UpNextCardProps> = ({ upNext, theme, t, onPlay, compact = false }) => {
+    // Seconds left, or null once cancelled or when there is no countdown
+    const [remaining, setRemaining] = useState<number | null>(upNext.countdown > 0 ? upNext.countdown : null);
+    // What the live region last announced about the countdown
+    const [announcement, setAnnouncement] = useState(upNext.countdown > 0 ? t('upNextCountdown', { count: upNext.countdown }) : '');
+    // The latest callback, so a re-render doesn't restart the running second
+    const play = useRef(onPlay);
+    play.current = onPlay;
+
+    useEffect(() => {
+        if (remaining === null) return;
+        if (remaining <= 0) {
+            setRemaining(null);
+            play.current();
+            return;
+        }
+        const timer = window.setTimeout(() => setRemaining(remaining - 1), 1000);
+        return () => window.clearTimeout(timer);
+    }, [remaining]);
+
+    const cancel = () => {
+        setRemaining(null);
+        setAnnouncement(t('upNextCancelled'));
+    };
+
+    const liveRegion = (
+        <div aria-live="polite" aria-atomic="true" style={VISUALLY_HIDDEN}>
+            {announcement}
+        </div>
+    );
+
+    if (compact) {
+        return (
+            <section
+                aria-label={t('upNext')}
+                style={{ flex: 1, minWidth: 0, display: 'flex', alignItems: 'center', gap: '6px', fontSize: '10px' }}
+            >
+                <span style={{ flexShrink: 0, fontWeight: 'bold', textTransform: 'uppercase', color: theme.accent }}>
+                    {t('upNext')}
+                </span>
+                <span style={{ minWidth: 0, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                    {upNext.title}
+                </span>
+                {remaining !== null && (
+                    <>
+                        <span aria-live="off" style={{ flexShrink: 0, color: theme.textMuted, whiteSpace: 'nowrap' }}>
+                            {t('upNextCountdown', { count: remaining })}
+                        </span>
+                        <button
+                            onClick={cancel}
+                            style={{
+                                flexShrink: 0,
+                                padding: '2px 6px',
+                                fontSize: '10px',
+                                border: 'none',
+                                borderRadius: theme.radius,
+                                cursor: 'pointer',
+                                backgroundColor: theme.muted,
+                                color: theme.text
+                            }}
+                        >
+                            {t('cancel')}
+                        </button>
+                    </>
+                )}
+                {liveRegion}
+            </section>
+        );
+    }
+
+    const buttonStyle: React.CSSProperties = {
+        padding: '6px 10px',
+        fontSize: '11px',
+        fontWeight: '600',
+        border: 'none',
+        borderRadius: theme.radius,
+        cursor: 'pointer'
+    };
+
+    return (
+        <section
+            aria-label={t('upNext')}
+            style={{
+                marginBottom: '12px',
+                padding: '10px',
+                borderRadius: theme.radius,
+                border: `1px solid ${theme.accent}`,
+                backgroundColor: theme.surface
+            }}
+        >
+            <div style={{
+                fontSize: '10px',
+                fontWeight: 'bold',
+                textTransform: 'uppercase',
+                letterSpacing: '1px',
+                color: theme.accent,
+                marginBottom: '4px'
+            }}>
+                {t('upNext')}
+            </div>
+
+            <div style={{ fontSize: '13px', fontWeight: 'bold', lineHeight: '1.3', marginBottom: '4px' }}>
+                {upNext.title}
+            </div>
+
+            {upNext.opening && (
+                <div style={{
+                    fontSize: '11px',
+                    fontStyle: 'italic',
+                    color: theme.textMuted,
+                    lineHeight: '1.4',
+                    marginBottom: '8px'
+                }}>
+                    {upNext.opening}
+                </div>
+            )}
+
+            {remaining !== null && (
+                <div aria-live="off" style={{ fontSize: '10px', color: theme.textMuted, marginBottom: '6px' }}>
+                    {t('upNextCountdown', { count: remaining })}
+                </div>
+            )}
+
+            {liveRegion}
+
+            <div style={{ display: 'flex', gap: '6px' }}>
+                <button
+                    onClick={onPlay}
+                    style={{ ...buttonStyle, flex: 2, backgroundColor: theme.accent, color: theme.accentText }}
+                >
+                    ▶ {t('playNow')}
+                </button>
+                {remaining !== null && (
+                    <button
+                        onClick={cancel}
+                        style={{ ...buttonStyle, flex: 1, backgroundColor: theme.muted, color: theme.text }}
+                    >
+                        {t('cancel')}
+                    </button>
+                )}
+            </div>
+        </section>
+    );
+};
@@ -0,0 +1,98 @@
+/**
+ * Character Card Import
+ *
+ * Reads character cards exported from ChubAI and other frontends so the
+ * TestRunner can preview a creator's own show: `chara_card_v2` / `v3`
+ * JSON, older flat JSON cards, and PNG cards with the card embedded as
+ * base64 JSON in a `ccv3` or `chara` text chunk.
+ */
+
+// ===== CONSTANTS =====
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// V3 cards also carry a V2 copy under `chara`; the V3 chunk wins
+const CARD_CHUNK_KEYWORDS = ['ccv3', 'chara'];
+
+// ===== PNG =====
+
+export function isPng(bytes: Uint8Array): boolean {
+    return PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Read the text chunks (`tEXt` and uncompressed `iTXt`) of a PNG, keyed
+ * by keyword.
+ */
+export function readPngTextChunks(bytes: Uint8Array): Record<string, string> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const latin1 = new TextDecoder('latin1');
+    const utf8 = new TextDecoder('utf-8');
+    const chunks: Record<string, string> = {};
+
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        offset += 12 + length;
+
+        if (type === 'IEND') break;
+
+        const separator = data.indexOf(0);
+        if (separator < 0) continue;
+        const keyword = latin1.decode(data.subarray(0, separator));
+
+        if (type === 'tEXt') {
+            chunks[keyword] = latin1.decode(data.subarray(separator + 1));
+        } else if (type === 'iTXt' && data[separator + 1] === 0) {
+            // Skip the compression flag and method, language tag and translated keyword
+            let start = separator + 3;
+            for (let skipped = 0; skipped < 2; skipped++) {
+                const end = data.indexOf(0, start);
+                if (end < 0) break;
+                start = end + 1;
+            }
+            chunks[keyword] = utf8.decode(data.subarray(start));
+        }
+    }
+
+    return chunks;
+}
+
+function decodeBase64Utf8(base64: string): string {
+    const binary = atob(base64.trim());
+    return new TextDecoder('utf-8').decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+// ===== CARDS =====
+
+/**
+ * Parse a card file's contents into the raw card JSON.
+ */
+export function readCardFile(bytes: Uint8Array): unknown {
+    if (isPng(bytes)) {
+        const chunks = readPngTextChunks(bytes);
+        const keyword = CARD_CHUNK_KEYWORDS.find(candidate => chunks[candidate] !== undefined);
+        if (!keyword) {
+            throw new Error('This PNG has no embedded character card');
+        }
+        return JSON.parse(decodeBase64Utf8(chunks[keyword]));
+    }
+    return JSON.parse(new TextDecoder('utf-8').decode(bytes));
+}
+
+/**
+ * Stage init data for a chat with the given card, reusing the rest
+ * (users, config) from a base init. The card is passed through as is;
+ * the stage normalizes it like any other character.
+ */
+export function buildInitData(card: unknown, base: Record<string, unknown>): Record<string, unknown> {
+    return {
+        ...base,
+        characters: { imported: card },
+        chatState: null,
+        messageState: null,
+        initState: null
+    };
+}
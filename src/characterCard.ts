@@ -0,0 +1,202 @@
+/**
+ * Character Card Normalization
+ *
+ * Characters reach the stage in several shapes: the platform's own
+ * character objects, `chara_card_v2` / `chara_card_v3` cards with their
+ * fields nested under `data`, and older flat (V1) cards. This module turns
+ * any of them into one character model and reports every field it had to
+ * skip, so card problems can be shown to the creator instead of silently
+ * producing a one-episode show.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export type CardSpec = 'chara_card_v3' | 'chara_card_v2' | 'v1' | 'platform';
+
+export type NormalizedCharacter = {
+    id: string;
+    name: string;
+    spec: CardSpec;
+    /** `spec_version` as declared by the card */
+    specVersion: string | null;
+    /** First message (when the card has one), alternate greetings, then group-only greetings */
+    greetings: string[];
+    groupOnlyGreetings: number;
+    creatorNotes: string;
+    tags: string[];
+    extensions: Record<string, unknown>;
+};
+
+export type CardIssueCode = 'notACard' | 'unknownSpec' | 'invalidField' | 'invalidJson' | 'noGreetings' | 'noFirstMessage';
+
+export type CardIssue = {
+    characterId: string;
+    /** Character name, when it could be read */
+    characterName: string | null;
+    code: CardIssueCode;
+    field: string | null;
+    /** Expected type for `invalidField`, the declared spec for `unknownSpec` */
+    detail: string | null;
+};
+
+export type NormalizedCharacters = {
+    characters: NormalizedCharacter[];
+    issues: CardIssue[];
+};
+
+// ===== HELPERS =====
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Reads one character's fields, collecting an issue for each one skipped
+function createReader(characterId: string, fields: Fields) {
+    const issues: CardIssue[] = [];
+    let characterName: string | null = null;
+
+    const report = (code: CardIssueCode, field: string | null = null, detail: string | null = null) => {
+        issues.push({ characterId, characterName, code, field, detail });
+    };
+
+    const has = (key: string) => fields[key] !== undefined && fields[key] !== null;
+
+    const string = (key: string): string | null => {
+        const value = fields[key];
+        if (!has(key)) return null;
+        if (typeof value === 'string') return value;
+        report('invalidField', key, 'string');
+        return null;
+    };
+
+    const strings = (key: string): string[] => {
+        const value = fields[key];
+        if (!has(key)) return [];
+        if (!Array.isArray(value)) {
+            report('invalidField', key, 'string[]');
+            return [];
+        }
+        const valid = value.filter((item): item is string => typeof item === 'string');
+        if (valid.length < value.length) {
+            report('invalidField', key, 'string[]');
+        }
+        return valid;
+    };
+
+    // An object field, which some exporters store as a JSON string
+    const object = (key: string): Fields => {
+        const value = fields[key];
+        if (!has(key)) return {};
+        if (isObject(value)) return value;
+        if (typeof value === 'string') {
+            try {
+                const parsed = JSON.parse(value);
+                if (isObject(parsed)) return parsed;
+            } catch {
+                // Reported below
+            }
+            report('invalidJson', key);
+            return {};
+        }
+        report('invalidField', key, 'object');
+        return {};
+    };
+
+    const setName = (name: string | null) => {
+        characterName = name;
+    };
+
+    return { issues, report, has, string, strings, object, setName };
+}
+
+function detectSpec(card: Fields): { spec: CardSpec; declared: string | null; fields: Fields } {
+    const declared = typeof card.spec === 'string' ? card.spec : null;
+
+    // Nested data under an unknown spec is read like a V2 card
+    if (isObject(card.data)) {
+        return { spec: declared === 'chara_card_v3' ? 'chara_card_v3' : 'chara_card_v2', declared, fields: card.data };
+    }
+    if ('first_message' in card || 'partial_extensions' in card) {
+        return { spec: 'platform', declared, fields: card };
+    }
+    return { spec: 'v1', declared, fields: card };
+}
+
+// ===== NORMALIZATION =====
+
+export function normalizeCharacter(id: string, raw: unknown): { character: NormalizedCharacter | null; issues: CardIssue[] } {
+    if (!isObject(raw)) {
+        return {
+            character: null,
+            issues: [{ characterId: id, characterName: null, code: 'notACard', field: null, detail: null }]
+        };
+    }
+
+    const { spec, declared, fields } = detectSpec(raw);
+    const reader = createReader(id, fields);
+    const name = reader.string('name');
+    reader.setName(name);
+
+    if (declared !== null && declared !== 'chara_card_v2' && declared !== 'chara_card_v3') {
+        reader.report('unknownSpec', 'spec', declared);
+    }
+
+    const firstMessage = reader.has('first_message') ? reader.string('first_message') : reader.string('first_mes');
+    const groupOnly = reader.strings('group_only_greetings');
+    const alternates = [...reader.strings('alternate_greetings'), ...groupOnly];
+    const hasFirstMessage = (firstMessage ?? '').trim().length > 0;
+    // Without a first message the episodes start from the first alternate greeting
+    const greetings = hasFirstMessage ? [firstMessage as string, ...alternates] : alternates;
+    if (greetings.every(greeting => greeting.trim().length === 0)) {
+        reader.report('noGreetings');
+    } else if (!hasFirstMessage) {
+        reader.report('noFirstMessage', reader.has('first_message') ? 'first_message' : 'first_mes');
+    }
+
+    // V1 cards keep creator notes in `creatorcomment`, and tags may be one comma-separated string
+    const creatorNotes = reader.string(reader.has('creator_notes') ? 'creator_notes' : 'creatorcomment') ?? '';
+    const tags = typeof fields.tags === 'string'
+        ? fields.tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)
+        : reader.strings('tags');
+
+    const specVersion = typeof raw.spec_version === 'string' || typeof raw.spec_version === 'number'
+        ? String(raw.spec_version)
+        : null;
+
+    return {
+        character: {
+            id,
+            name: name || 'Character',
+            spec,
+            specVersion,
+            greetings,
+            groupOnlyGreetings: groupOnly.length,
+            creatorNotes,
+            tags,
+            extensions: { ...reader.object('extensions'), ...reader.object('partial_extensions') }
+        },
+        issues: reader.issues
+    };
+}
+
+/**
+ * Normalize every character of the chat. Accepts the id map the stage
+ * receives as well as a plain array (as in the test data). Characters
+ * without any greeting are reported and left out.
+ */
+export function normalizeCharacters(characters: Record<string, unknown> | unknown[] | null | undefined): NormalizedCharacters {
+    const result: NormalizedCharacters = { characters: [], issues: [] };
+    if (!characters) return result;
+
+    Object.entries(characters).forEach(([id, raw]) => {
+        const { character, issues } = normalizeCharacter(id, raw);
+        result.issues.push(...issues);
+        if (character && character.greetings.some(greeting => greeting.trim().length > 0)) {
+            result.characters.push(character);
+        }
+    });
+
+    return result;
+}
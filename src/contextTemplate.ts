@@ -0,0 +1,112 @@
+/**
+ * Chubflix Context Templates
+ *
+ * Lets creators write the episode context injected into prompts
+ * themselves. A template is plain text with `{{placeholder}}` macros and
+ * conditional sections:
+ *
+ *     Now playing: {{title}} ({{episode}}/{{total}}).
+ *     {{#if synopsis}}Synopsis: {{synopsis}}{{else}}No synopsis.{{/if}}
+ *
+ * A section's condition holds when its placeholder has a non-empty value.
+ * Unknown placeholders are left untouched, so macros the chat itself
+ * expands still work.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export const TEMPLATE_PLACEHOLDERS = [
+    'title', 'episode', 'total', 'season', 'synopsis', 'char', 'user', 'previousTitle', 'nextTitle'
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+export type TemplateValues = Record<TemplatePlaceholder, string | number | null>;
+
+/** Where injected text goes: the system message, or in front of the user's message */
+export type InjectionTarget = 'system' | 'message';
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'value'; name: string; raw: string }
+    | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+// ===== PARSING =====
+
+const TAG = /\{\{\s*(?:(#if)\s+(\w+)|(else)|(\/if)|(\w+))\s*\}\}/g;
+
+/**
+ * Parse a template into nodes. An unclosed section runs to the end of the
+ * template; a stray `{{else}}` or `{{/if}}` is kept as text.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open sections, innermost last, with the branch being filled
+    const stack: { node: Extract<TemplateNode, { type: 'if' }>; branch: TemplateNode[] }[] = [];
+    const current = () => stack.length > 0 ? stack[stack.length - 1].branch : root;
+
+    let offset = 0;
+    for (const match of template.matchAll(TAG)) {
+        const [raw, open, condition, otherwise, close, name] = match;
+        const index = match.index ?? 0;
+        if (index > offset) {
+            current().push({ type: 'text', text: template.slice(offset, index) });
+        }
+        offset = index + raw.length;
+
+        if (open) {
+            const node: TemplateNode = { type: 'if', name: condition, then: [], otherwise: [] };
+            current().push(node);
+            stack.push({ node, branch: node.then });
+        } else if (otherwise && stack.length > 0) {
+            const section = stack[stack.length - 1];
+            section.branch = section.node.otherwise;
+        } else if (close && stack.length > 0) {
+            stack.pop();
+        } else if (name) {
+            current().push({ type: 'value', name, raw });
+        } else {
+            current().push({ type: 'text', text: raw });
+        }
+    }
+
+    if (offset < template.length) {
+        current().push({ type: 'text', text: template.slice(offset) });
+    }
+    return root;
+}
+
+// ===== RENDERING =====
+
+function isPlaceholder(name: string): name is TemplatePlaceholder {
+    return (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+}
+
+function lookup(values: TemplateValues, name: string): string | null {
+    if (!isPlaceholder(name)) return null;
+    const value = values[name];
+    return value === null || value === '' ? null : String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], values: TemplateValues): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.text;
+            case 'value':
+                return isPlaceholder(node.name) ? lookup(values, node.name) ?? '' : node.raw;
+            case 'if':
+                return renderNodes(lookup(values, node.name) !== null ? node.then : node.otherwise, values);
+        }
+    }).join('');
+}
+
+/**
+ * Render a template, collapsing the blank lines left behind by empty
+ * sections.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+    return renderNodes(parseTemplate(template), values)
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
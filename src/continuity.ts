@@ -0,0 +1,250 @@
+/**
+ * Chubflix Continuity Ledger
+ *
+ * Keeps track of what the story has established: people and places that
+ * were introduced, promises made and items handed over. Entries are
+ * picked out of the chat with local patterns, no model call involved, so
+ * they are only a first draft; the user can correct, add and remove them
+ * in the panel. A condensed ledger is injected into later episodes.
+ */
+
+import { Translate } from './i18n';
+import { splitSentences } from './recap';
+
+// ===== TYPE DEFINITIONS =====
+
+export type LedgerKind = 'person' | 'place' | 'promise' | 'item';
+
+export type LedgerEntry = {
+    /** Kind and normalized text of the entry as first found */
+    id: string;
+    kind: LedgerKind;
+    text: string;
+    /** Episode the entry was first seen in */
+    episode: number;
+    mentions: number;
+    /** True once the user has added or edited the entry */
+    edited: boolean;
+};
+
+export type Ledger = {
+    entries: LedgerEntry[];
+    /** Ids of entries the user removed, so they aren't picked up again */
+    dismissed: string[];
+};
+
+/** Where a message came from */
+export type LedgerSource = {
+    episode: number;
+    /** Name of whoever wrote the message */
+    speaker: string;
+    /** Names already known to the story (the characters and the user) */
+    knownNames: string[];
+};
+
+type Finding = { kind: LedgerKind; text: string };
+
+type LedgerMessageKey = 'continuityHeading' | 'continuityPeople' | 'continuityPlaces' | 'continuityItems' | 'continuityPromises';
+
+// ===== CONSTANTS =====
+
+export const LEDGER_KINDS: LedgerKind[] = ['person', 'place', 'item', 'promise'];
+
+// Oldest, least-mentioned entries are dropped past this size
+const MAX_LEDGER_ENTRIES = 80;
+const MAX_INJECTED_PER_KIND = 6;
+const MAX_PROMISE_LENGTH = 160;
+
+const PLACE_WORDS = ['Street', 'St', 'Avenue', 'Ave', 'Road', 'Lane', 'Boulevard', 'Square', 'Bridge', 'Park',
+    'Airport', 'Terminal', 'Gate', 'Station', 'Harbor', 'Harbour', 'Port', 'Beach', 'Island', 'Lake', 'River',
+    'Mountain', 'Forest', 'Woods', 'Valley', 'City', 'Town', 'Village', 'Castle', 'Palace', 'Tower', 'Manor',
+    'Hotel', 'Inn', 'Tavern', 'Bar', 'Pub', 'Cafe', 'Café', 'Diner', 'Restaurant', 'Club', 'Market', 'Mall',
+    'Library', 'Museum', 'School', 'Academy', 'University', 'College', 'Hospital', 'Church', 'Temple', 'Hall',
+    'Office', 'Apartments', 'Motel'];
+
+const PLACE_NAME = new RegExp(
+    `\\b((?:[A-Z][\\w'’-]*\\s+){0,3}(?:${PLACE_WORDS.join('|')})(?:\\s+\\d+[A-Z]?)?)\\b`, 'g'
+);
+const PLACE_OF = /\b(?:town|city|village|kingdom|realm|land|planet|island) of ([A-Z][\w'’-]+(?:\s+[A-Z][\w'’-]+)?)/g;
+
+const INTRODUCTION = /\b(?:[Mm]y name is|[Mm]y name's|[Cc]all me|[Tt]his is|[Mm]eet|named|called|I am|I'm)\s+([A-Z][a-z'’-]+(?:\s+[A-Z][a-z'’-]+)?)/g;
+const TITLED_NAME = /\b((?:Mr|Mrs|Ms|Dr|Captain|Officer|Detective|Professor|Aunt|Uncle|Lady|Lord|Sir)\.?\s+[A-Z][a-z'’-]+)/g;
+
+const PROMISE = /\b(?:I|we) (?:promise|swear|vow)\b|\b(?:give you my word|cross my heart)\b/i;
+
+const ITEM = /\b(?:give|gives|gave|hand|hands|handed|pass|passes|passed|slip|slips|slipped|toss|tosses|tossed|offer|offers|offered)\s+(?:you|him|her|me|them|[A-Z][a-z]+)\s+(?:a|an|the|his|her|my|your|their|this|that)\s+((?:[\w'’-]+\s+){0,3}?[\w'’-]+?)(?=\s*(?:[,.;:!?—–]|$)|\s+(?:and|to|as|with|from|before|after|while|that|which|for)\b)/gi;
+
+// Capitalized words that follow "I'm" or "This is" without being names
+const NOT_NAMES = new Set(['i', 'the', 'a', 'an', 'it', 'this', 'that', 'here', 'there', 'not', 'so', 'just',
+    'sorry', 'fine', 'okay', 'ok', 'yes', 'no', 'oh', 'well', 'going', 'glad', 'sure', 'really', 'very',
+    'what', 'how', 'why', 'who', 'where', 'when', 'all', 'only', 'still', 'always', 'never', 'home', 'back']);
+
+// ===== HELPERS =====
+
+export function emptyLedger(): Ledger {
+    return { entries: [], dismissed: [] };
+}
+
+export function ledgerEntryId(kind: LedgerKind, text: string): string {
+    return `${kind}:${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()}`;
+}
+
+function isKnownName(name: string, knownNames: string[]): boolean {
+    const lower = name.toLowerCase();
+    return knownNames.some(known => {
+        const knownLower = known.toLowerCase();
+        return knownLower === lower || knownLower.split(/\s+/)[0] === lower.split(/\s+/)[0];
+    });
+}
+
+function isPlaceName(text: string): boolean {
+    const words = text.split(/\s+/);
+    return words.some(word => PLACE_WORDS.includes(word));
+}
+
+// ===== EXTRACTION =====
+
+function findPeople(sentence: string, knownNames: string[]): Finding[] {
+    const findings: Finding[] = [];
+    for (const match of sentence.matchAll(INTRODUCTION)) {
+        const name = match[1];
+        if (NOT_NAMES.has(name.split(/\s+/)[0].toLowerCase()) || isPlaceName(name)) continue;
+        if (isKnownName(name, knownNames)) continue;
+        findings.push({ kind: 'person', text: name });
+    }
+    return findings;
+}
+
+function findPlaces(sentence: string): Finding[] {
+    const findings: Finding[] = [];
+    for (const match of sentence.matchAll(PLACE_NAME)) {
+        const name = match[1].replace(/^(?:The|A|An)\s+/, '');
+        // A place word on its own ("the Bar") is too vague to keep
+        if (name.split(/\s+/).length < 2) continue;
+        findings.push({ kind: 'place', text: name });
+    }
+    for (const match of sentence.matchAll(PLACE_OF)) {
+        findings.push({ kind: 'place', text: match[1] });
+    }
+    return findings;
+}
+
+function findPromise(sentence: string, speaker: string): Finding[] {
+    if (!PROMISE.test(sentence) || sentence.split(/\s+/).length < 4) return [];
+    const unquoted = sentence.replace(/^["“”'‘’\s]+|["“”'‘’\s]+$/g, '');
+    const text = unquoted.length > MAX_PROMISE_LENGTH ? `${unquoted.slice(0, MAX_PROMISE_LENGTH - 1)}…` : unquoted;
+    return [{ kind: 'promise', text: speaker ? `${speaker}: ${text}` : text }];
+}
+
+function findItems(sentence: string, speaker: string): Finding[] {
+    return Array.from(sentence.matchAll(ITEM), match => ({
+        kind: 'item' as const,
+        text: speaker ? `${match[1]} (${speaker})` : match[1]
+    }));
+}
+
+/**
+ * Pick the people, places, promises and items out of one message.
+ */
+export function extractFindings(content: string, speaker: string, knownNames: string[]): Finding[] {
+    // Titles are matched across the whole message, since "Dr." ends a sentence
+    const titled = Array.from(content.matchAll(TITLED_NAME), match => ({ kind: 'person' as const, text: match[1] }));
+    return [...titled, ...splitSentences(content).flatMap(sentence => [
+        ...findPeople(sentence, knownNames),
+        ...findPlaces(sentence),
+        ...findPromise(sentence, speaker),
+        ...findItems(sentence, speaker)
+    ])];
+}
+
+// ===== LEDGER UPDATES =====
+
+function trimLedger(entries: LedgerEntry[]): LedgerEntry[] {
+    const trimmed = [...entries];
+    while (trimmed.length > MAX_LEDGER_ENTRIES) {
+        const candidates = trimmed.filter(entry => !entry.edited);
+        if (candidates.length === 0) break;
+        const fewest = Math.min(...candidates.map(entry => entry.mentions));
+        trimmed.splice(trimmed.indexOf(candidates.find(entry => entry.mentions === fewest) as LedgerEntry), 1);
+    }
+    return trimmed;
+}
+
+/**
+ * Add what a message establishes to the ledger. Entries already in it
+ * count another mention; removed entries stay removed.
+ */
+export function recordMessage(ledger: Ledger, content: string, source: LedgerSource): Ledger {
+    const entries = [...ledger.entries];
+    extractFindings(content, source.speaker, source.knownNames).forEach(finding => {
+        const id = ledgerEntryId(finding.kind, finding.text);
+        if (ledger.dismissed.includes(id)) return;
+
+        const index = entries.findIndex(entry => entry.id === id);
+        if (index >= 0) {
+            entries[index] = { ...entries[index], mentions: entries[index].mentions + 1 };
+        } else {
+            entries.push({ id, kind: finding.kind, text: finding.text, episode: source.episode, mentions: 1, edited: false });
+        }
+    });
+    return { ...ledger, entries: trimLedger(entries) };
+}
+
+export function addLedgerEntry(ledger: Ledger, kind: LedgerKind, text: string, episode: number): Ledger {
+    const id = ledgerEntryId(kind, text);
+    if (text.trim().length === 0 || ledger.entries.some(entry => entry.id === id)) return ledger;
+    return {
+        entries: [...ledger.entries, { id, kind, text: text.trim(), episode, mentions: 1, edited: true }],
+        dismissed: ledger.dismissed.filter(dismissed => dismissed !== id)
+    };
+}
+
+export function editLedgerEntry(ledger: Ledger, id: string, text: string): Ledger {
+    if (text.trim().length === 0) return removeLedgerEntry(ledger, id);
+    return {
+        ...ledger,
+        entries: ledger.entries.map(entry => entry.id === id ? { ...entry, text: text.trim(), edited: true } : entry)
+    };
+}
+
+/**
+ * The ledger a new playthrough starts with: nothing established yet, but
+ * entries the user removed stay removed.
+ */
+export function restartLedger(ledger: Ledger): Ledger {
+    return { entries: [], dismissed: ledger.dismissed };
+}
+
+export function removeLedgerEntry(ledger: Ledger, id: string): Ledger {
+    return {
+        entries: ledger.entries.filter(entry => entry.id !== id),
+        dismissed: ledger.dismissed.includes(id) ? ledger.dismissed : [...ledger.dismissed, id]
+    };
+}
+
+// ===== INJECTION =====
+
+/**
+ * Condense ledger entries into one bracketed block, keeping the most
+ * mentioned entries of each kind. Returns null when there are none.
+ */
+export function formatLedger(entries: LedgerEntry[], translate: Translate<LedgerMessageKey>): string | null {
+    const top = (kind: LedgerKind) => entries
+        .filter(entry => entry.kind === kind)
+        .sort((a, b) => b.mentions - a.mentions)
+        .slice(0, MAX_INJECTED_PER_KIND)
+        .map(entry => entry.text);
+
+    const lines: string[] = [];
+    const people = top('person');
+    const places = top('place');
+    const items = top('item');
+    const promises = top('promise');
+    if (people.length > 0) lines.push(translate('continuityPeople', { items: people.join(', ') }));
+    if (places.length > 0) lines.push(translate('continuityPlaces', { items: places.join(', ') }));
+    if (items.length > 0) lines.push(translate('continuityItems', { items: items.join(', ') }));
+    if (promises.length > 0) lines.push(translate('continuityPromises'), ...promises.map(promise => `- ${promise}`));
+
+    if (lines.length === 0) return null;
+    return `[${translate('continuityHeading')}\n${lines.join('\n')}]`;
+}
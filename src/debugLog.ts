@@ -0,0 +1,119 @@
+/**
+ * Chubflix Debug Log
+ *
+ * Lifecycle events recorded by the stage for the debug panel and the
+ * test runner. Events are grouped into categories for filtering, and
+ * message text can be redacted before the log is shown or exported.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export type DebugLogEntry = {
+    /** Increases with every entry, so it stays stable as old entries are dropped */
+    id: number;
+    timestamp: number;
+    event: string;
+    data: unknown;
+};
+
+export type DebugCategory = 'beforePrompt' | 'afterResponse' | 'setState' | 'constructor' | 'load' | 'episode' | 'other';
+
+// ===== CONSTANTS =====
+
+export const DEFAULT_DEBUG_BUFFER_SIZE = 50;
+
+export const DEBUG_CATEGORIES: DebugCategory[] = ['beforePrompt', 'afterResponse', 'setState', 'constructor', 'load', 'episode', 'other'];
+
+const CATEGORY_COLORS: Record<DebugCategory, string> = {
+    beforePrompt: '#4a9eff',
+    afterResponse: '#4ade80',
+    setState: '#f59e0b',
+    constructor: '#a855f7',
+    load: '#ec4899',
+    episode: '#06b6d4',
+    other: '#94a3b8'
+};
+
+// Fields holding message or card text, replaced when redacting
+const REDACTED_KEYS = [
+    'content',
+    'text',
+    'cleaned',
+    'reply',
+    'transcripts',
+    'modifiedMessage',
+    'systemMessage',
+    'first_mes',
+    'first_message',
+    'alternate_greetings',
+    'description',
+    'personality',
+    'scenario',
+    'example_dialogs'
+];
+
+// ===== CATEGORIES =====
+
+export function eventCategory(event: string): DebugCategory {
+    if (event.includes('beforePrompt')) return 'beforePrompt';
+    if (event.includes('afterResponse')) return 'afterResponse';
+    if (event.includes('setState')) return 'setState';
+    if (event.includes('constructor')) return 'constructor';
+    if (event.includes('load')) return 'load';
+    if (event.includes('Episode')) return 'episode';
+    return 'other';
+}
+
+export function categoryColor(category: DebugCategory): string {
+    return CATEGORY_COLORS[category];
+}
+
+export function eventColor(event: string): string {
+    return categoryColor(eventCategory(event));
+}
+
+// ===== REDACTION & EXPORT =====
+
+function redactValue(value: unknown): unknown {
+    if (typeof value === 'string') return `[redacted: ${value.length} chars]`;
+    if (Array.isArray(value)) return value.map(redactValue);
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, redactValue(inner)]));
+    }
+    return value;
+}
+
+/**
+ * Copy of the data with message and card text replaced by its length.
+ */
+export function redactData(data: unknown): unknown {
+    if (Array.isArray(data)) return data.map(redactData);
+    if (data === null || typeof data !== 'object') return data;
+
+    const redacted: Record<string, unknown> = {};
+    Object.entries(data as Record<string, unknown>).forEach(([key, value]) => {
+        redacted[key] = REDACTED_KEYS.includes(key) ? redactValue(value) : redactData(value);
+    });
+    return redacted;
+}
+
+export function exportDebugLog(entries: DebugLogEntry[], redact: boolean): string {
+    const exported = entries.map(entry => ({
+        ...entry,
+        time: new Date(entry.timestamp).toISOString(),
+        data: redact ? redactData(entry.data) : entry.data
+    }));
+    return JSON.stringify(exported, null, 2);
+}
+
+/**
+ * Offer JSON to the user as a file download.
+ */
+export function downloadJson(filename: string, json: string): void {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,65 @@
+/**
+ * Chubflix End-of-Episode Markers
+ *
+ * Lets the model signal that an episode is over by writing a marker such
+ * as `[END OF EPISODE]` or "To be continued...". Markers are matched
+ * case-insensitively, with or without surrounding emphasis, and `...`
+ * also matches a typographic ellipsis.
+ */
+
+// ===== CONSTANTS =====
+
+export const DEFAULT_END_MARKERS = '[END OF EPISODE], To be continued...';
+
+// ===== TYPE DEFINITIONS =====
+
+export type EndMarkerMatch = {
+    found: boolean;
+    marker: string | null;
+    /** Content with every marker removed */
+    cleaned: string;
+};
+
+// ===== DETECTION =====
+
+/**
+ * Split the comma-separated `endMarkers` setting into markers.
+ */
+export function parseEndMarkers(setting: string): string[] {
+    return setting
+        .split(',')
+        .map(marker => marker.trim())
+        .filter(marker => marker.length > 0);
+}
+
+function markerPattern(marker: string): RegExp {
+    const escaped = marker
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/(\\\.){3}/g, '(?:\\.\\.\\.|…)')
+        .replace(/\s+/g, '\\s+');
+    // Swallow markdown emphasis wrapped around the marker, e.g. *To be continued...*
+    return new RegExp(`[*_~]*${escaped}[*_~]*`, 'gi');
+}
+
+export function detectEndMarker(content: string, markers: string[]): EndMarkerMatch {
+    let cleaned = content;
+    let found: string | null = null;
+
+    for (const marker of markers) {
+        const pattern = markerPattern(marker);
+        if (pattern.test(cleaned)) {
+            found = found ?? marker;
+            cleaned = cleaned.replace(markerPattern(marker), '');
+        }
+    }
+
+    if (found === null) {
+        return { found: false, marker: null, cleaned: content };
+    }
+
+    return {
+        found: true,
+        marker: found,
+        cleaned: cleaned.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim()
+    };
+}
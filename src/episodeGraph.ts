@@ -0,0 +1,155 @@
+/**
+ * Chubflix Episode Graph
+ *
+ * Episodes form a directed graph through their `next` references. An
+ * episode without `next` continues to the following greeting, so cards
+ * without a manifest behave as a straight line. `next: end` marks an
+ * ending that has no successor.
+ *
+ * Positions are tracked as a path of episode indices from the first
+ * episode to the current one, and progress is measured along that path.
+ */
+
+import { Episode } from './manifest';
+
+// ===== TYPE DEFINITIONS =====
+
+/** Successor indices for each episode index */
+export type EpisodeGraph = number[][];
+
+export type PathProgress = {
+    /** 1-based position of the current episode on the path */
+    position: number;
+    /** Episodes on the path so far plus the longest way on to an ending */
+    total: number;
+};
+
+const END_REFS = ['end', 'none', 'finale'];
+
+// ===== GRAPH BUILDING =====
+
+/**
+ * Resolve a `next` reference to an episode index: an episode id first,
+ * then a 1-based episode number.
+ */
+export function resolveEpisodeRef(episodes: Episode[], ref: string): number | null {
+    const byId = episodes.find(episode => episode.id === ref);
+    if (byId) return byId.index;
+
+    const number = Number(ref);
+    if (Number.isInteger(number) && number >= 1 && number <= episodes.length) {
+        return number - 1;
+    }
+    return null;
+}
+
+export function buildEpisodeGraph(episodes: Episode[]): EpisodeGraph {
+    return episodes.map(episode => {
+        if (episode.next.length === 0) {
+            return episode.index + 1 < episodes.length ? [episode.index + 1] : [];
+        }
+        if (episode.next.every(ref => END_REFS.includes(ref.toLowerCase()))) {
+            return [];
+        }
+
+        const successors: number[] = [];
+        episode.next.forEach(ref => {
+            const index = resolveEpisodeRef(episodes, ref);
+            if (index !== null && index !== episode.index && !successors.includes(index)) {
+                successors.push(index);
+            }
+        });
+        return successors;
+    });
+}
+
+// ===== PATHS =====
+
+/**
+ * The longest route from `from` to an ending, not including `from`
+ * itself. Episodes in `exclude` (already watched on the path) and loops
+ * back into the current route are not followed.
+ */
+export function longestRoute(graph: EpisodeGraph, from: number, exclude: Set<number> = new Set()): number[] {
+    const memo = new Map<number, number[]>();
+    const onRoute = new Set<number>();
+
+    const route = (index: number): number[] => {
+        const known = memo.get(index);
+        if (known !== undefined) return known;
+
+        onRoute.add(index);
+        let best: number[] = [];
+        (graph[index] || []).forEach(next => {
+            if (!onRoute.has(next) && !exclude.has(next)) {
+                const candidate = [next, ...route(next)];
+                if (candidate.length > best.length) {
+                    best = candidate;
+                }
+            }
+        });
+        onRoute.delete(index);
+        memo.set(index, best);
+        return best;
+    };
+
+    return route(from);
+}
+
+export function remainingDepth(graph: EpisodeGraph, from: number, exclude: Set<number> = new Set()): number {
+    return longestRoute(graph, from, exclude).length;
+}
+
+export function pathProgress(graph: EpisodeGraph, path: number[]): PathProgress {
+    const current = path[path.length - 1] ?? 0;
+    return {
+        position: path.length,
+        total: path.length + remainingDepth(graph, current, new Set(path))
+    };
+}
+
+/**
+ * Shortest route from `from` to `to` (inclusive), or null if unreachable.
+ */
+export function findRoute(graph: EpisodeGraph, from: number, to: number): number[] | null {
+    const previous = new Map<number, number>();
+    const queue = [from];
+    const seen = new Set([from]);
+
+    while (queue.length > 0) {
+        const index = queue.shift() as number;
+        if (index === to) {
+            const route = [to];
+            while (route[0] !== from) {
+                route.unshift(previous.get(route[0]) as number);
+            }
+            return route;
+        }
+        (graph[index] || []).forEach(next => {
+            if (!seen.has(next)) {
+                seen.add(next);
+                previous.set(next, index);
+                queue.push(next);
+            }
+        });
+    }
+    return null;
+}
+
+/**
+ * Bring a path in line with a position restored from a swipe or jump:
+ * cut it back if the episode is already on it, extend it if the episode
+ * follows on from it, and otherwise rebuild it from the first episode.
+ */
+export function reconcilePath(graph: EpisodeGraph, path: number[], episode: number): number[] {
+    const existing = path.indexOf(episode);
+    if (existing >= 0) return path.slice(0, existing + 1);
+
+    const last = path[path.length - 1];
+    if (last !== undefined) {
+        const extension = findRoute(graph, last, episode);
+        if (extension) return [...path, ...extension.slice(1)];
+    }
+
+    return findRoute(graph, 0, episode) || [episode];
+}
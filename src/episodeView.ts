@@ -0,0 +1,68 @@
+/**
+ * Chubflix Episode View
+ *
+ * What the panel shows about the current episode and how the user can
+ * move on from it, shared by the column and ribbon layouts.
+ */
+
+import { Translate, UiMessageKey } from './i18n';
+import { SeasonProgress } from './seasons';
+
+// ===== TYPE DEFINITIONS =====
+
+export type EpisodeDetailsState = {
+    series: string;
+    episodeCount: number;
+    title: string;
+    synopsis: string | null;
+    /** 1-based position along the path, and the length of the longest route */
+    position: number;
+    total: number;
+    season: SeasonProgress | null;
+    /** Number within the season */
+    episodeNumber: number;
+    showEpisodeNumber: boolean;
+    showProgress: boolean;
+};
+
+export type EpisodeBranch = {
+    index: number;
+    title: string;
+};
+
+export type NavigationState = {
+    isFirstEpisode: boolean;
+    isLastEpisode: boolean;
+    /** At an ending, the playthrough is finished and Final has nothing left to do */
+    completed: boolean;
+    /** Why the next episode (or finishing, at an ending) is locked, or null while it isn't */
+    lockMessage: string | null;
+    /** The episode was marked finished and the user hasn't moved on yet */
+    finished: boolean;
+    /** The successors to choose from, when there are several */
+    branches: EpisodeBranch[];
+    /** Creator-set Next label; empty uses the translated one */
+    buttonText: string;
+};
+
+// ===== LABELS =====
+
+/**
+ * "Season 2, Episode 3", or "Episode 3 of 7" without seasons.
+ */
+export function episodeLabel(details: EpisodeDetailsState, t: Translate<UiMessageKey>): string {
+    return details.season
+        ? t('seasonEpisode', { season: details.season.season, episode: details.episodeNumber })
+        : t('episodeOf', { current: details.position, total: details.total });
+}
+
+/** Whether Next can be clicked; at an ending it finishes the playthrough */
+export function canGoNext(navigation: NavigationState): boolean {
+    return navigation.lockMessage === null && !(navigation.isLastEpisode && navigation.completed);
+}
+
+export function nextButtonLabel(navigation: NavigationState, t: Translate<UiMessageKey>): string {
+    if (navigation.lockMessage !== null) return navigation.lockMessage;
+    if (navigation.isLastEpisode) return t('final');
+    return navigation.buttonText || t('next');
+}
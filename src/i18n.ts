@@ -0,0 +1,931 @@
+/**
+ * Chubflix Stage Localization
+ *
+ * Two separate message catalogs:
+ *  - UI messages, shown to the user in the stage panel
+ *  - prompt messages, injected into the chat for the model
+ *
+ * They are selected independently (`locale` and `promptLocale` in the
+ * config) so a German-speaking user can still run an English story, or
+ * the other way around.
+ *
+ * Messages use `{name}` placeholders. A message may also be an object of
+ * plural forms keyed by `Intl.PluralRules` category; the form is picked
+ * from the `count` parameter.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export const LOCALES = ['en', 'es', 'fr', 'de', 'pt', 'ru', 'ja'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+/** `auto` follows the browser for `locale`, and the UI locale for `promptLocale` */
+export type LocaleSetting = 'auto' | Locale;
+
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+type MessageValue = string | PluralMessage;
+
+type MessageParams = Record<string, string | number>;
+
+export type UiMessageKey =
+    | 'episodeOf'
+    | 'episodeCount'
+    | 'episodeFallback'
+    | 'stateMessage'
+    | 'prev'
+    | 'next'
+    | 'previousEpisode'
+    | 'nextEpisode'
+    | 'progressLabel'
+    | 'seasonProgressLabel'
+    | 'announceEpisode'
+    | 'final'
+    | 'chooseNext'
+    | 'lockedExchanges'
+    | 'lockedMinutes'
+    | 'lockedKeyword'
+    | 'episodeComplete'
+    | 'upNext'
+    | 'upNextCountdown'
+    | 'upNextCancelled'
+    | 'playNow'
+    | 'episodes'
+    | 'nowPlaying'
+    | 'watched'
+    | 'notYetReached'
+    | 'seasonEpisode'
+    | 'overallEpisodeOf'
+    | 'seasonStateMessage'
+    | 'seasonHeading'
+    | 'series'
+    | 'previouslyOn'
+    | 'edit'
+    | 'save'
+    | 'cancel'
+    | 'edited'
+    | 'cardIssues'
+    | 'cardIssueNotACard'
+    | 'cardIssueUnknownSpec'
+    | 'cardIssueInvalidField'
+    | 'cardIssueInvalidJson'
+    | 'cardIssueNoGreetings'
+    | 'cardIssueNoFirstMessage'
+    | 'injectionPreview'
+    | 'injectionTargetSystem'
+    | 'injectionTargetMessage'
+    | 'injectionNothing'
+    | 'continuity'
+    | 'ledgerPeople'
+    | 'ledgerPlaces'
+    | 'ledgerItems'
+    | 'ledgerPromises'
+    | 'ledgerEmpty'
+    | 'ledgerAdd'
+    | 'ledgerRemove'
+    | 'statistics'
+    | 'statsWatchTime'
+    | 'statsChatWatchTime'
+    | 'statsMostRevisited'
+    | 'statsMessages'
+    | 'statsAverageReply'
+    | 'statsSwipes'
+    | 'statsVisits'
+    | 'statsVisited'
+    | 'statsMinutes'
+    | 'statsHours'
+    | 'statsEmpty'
+    | 'finaleTheEnd'
+    | 'finaleComplete'
+    | 'finalePath'
+    | 'rewatch'
+    | 'playthrough'
+    | 'earlierPlaythroughs'
+    | 'playthroughFinished'
+    | 'playthroughUnfinished'
+    | 'debugLog'
+    | 'exportLog'
+    | 'exportTrace'
+    | 'redactContent'
+    | 'noMatchingEvents'
+    | 'waitingForEvents';
+
+export type PromptMessageKey =
+    | 'episodeContext'
+    | 'seasonEpisodeContext'
+    | 'characterEpisode'
+    | 'episodeFallback'
+    | 'loreHeading'
+    | 'loreLocation'
+    | 'loreCast'
+    | 'loreTone'
+    | 'loreFacts'
+    | 'continuityHeading'
+    | 'continuityPeople'
+    | 'continuityPlaces'
+    | 'continuityItems'
+    | 'continuityPromises'
+    | 'previouslyOn';
+
+export type Translate<K extends string> = (key: K, params?: MessageParams) => string;
+
+type Catalog<K extends string> = Record<'en', Record<K, MessageValue>> & Partial<Record<Locale, Partial<Record<K, MessageValue>>>>;
+
+// ===== UI CATALOG =====
+
+const UI_MESSAGES: Catalog<UiMessageKey> = {
+    en: {
+        episodeOf: 'Episode {current} of {total}',
+        episodeCount: { one: '{count} episode', other: '{count} episodes' },
+        episodeFallback: 'Episode {number}',
+        stateMessage: 'Episode {current}/{total}',
+        prev: '← Prev',
+        next: 'Next →',
+        previousEpisode: 'Previous episode',
+        nextEpisode: 'Next episode',
+        progressLabel: 'Series progress',
+        seasonProgressLabel: 'Season {season} progress',
+        announceEpisode: 'Now playing: {title}, episode {current} of {total}',
+        final: 'Final',
+        chooseNext: 'CHOOSE THE NEXT EPISODE',
+        lockedExchanges: { one: '{count} more exchange', other: '{count} more exchanges' },
+        lockedMinutes: { one: '{count} more minute', other: '{count} more minutes' },
+        lockedKeyword: 'Story beat: {keywords}',
+        episodeComplete: 'Episode complete',
+        upNext: 'Up Next',
+        upNextCountdown: { one: 'Starts in {count} second', other: 'Starts in {count} seconds' },
+        upNextCancelled: 'Countdown cancelled',
+        playNow: 'Play now',
+        episodes: 'EPISODES',
+        nowPlaying: 'Now playing',
+        watched: 'Watched',
+        notYetReached: 'Not yet reached',
+        seasonEpisode: 'Season {season}, Episode {episode}',
+        overallEpisodeOf: 'Episode {current} of {total} overall',
+        seasonStateMessage: 'S{season}E{episode} · {current}/{total}',
+        seasonHeading: 'SEASON {season}',
+        series: 'SERIES',
+        previouslyOn: 'PREVIOUSLY ON',
+        edit: 'Edit',
+        save: 'Save',
+        cancel: 'Cancel',
+        edited: '(edited)',
+        cardIssues: { one: '⚠ {count} card issue', other: '⚠ {count} card issues' },
+        cardIssueNotACard: 'Not a character card',
+        cardIssueUnknownSpec: 'Unknown card spec "{detail}", read as a V2 card',
+        cardIssueInvalidField: '{field} skipped: expected {detail}',
+        cardIssueInvalidJson: '{field} skipped: not valid JSON',
+        cardIssueNoGreetings: 'No greetings found',
+        cardIssueNoFirstMessage: 'No first message; episodes start from the first alternate greeting',
+        injectionPreview: 'Next prompt context',
+        injectionTargetSystem: 'Sent as a system message',
+        injectionTargetMessage: 'Added before your message',
+        injectionNothing: 'Nothing will be injected',
+        continuity: 'Continuity',
+        ledgerPeople: 'People',
+        ledgerPlaces: 'Places',
+        ledgerItems: 'Items',
+        ledgerPromises: 'Promises',
+        ledgerEmpty: 'Nothing tracked yet',
+        ledgerAdd: 'Add',
+        ledgerRemove: 'Remove',
+        statistics: 'Statistics',
+        statsWatchTime: 'Watch time: {time}',
+        statsChatWatchTime: 'All series in this chat: {time}',
+        statsMostRevisited: { one: 'Most revisited: {title} ({count} visit)', other: 'Most revisited: {title} ({count} visits)' },
+        statsMessages: '{user} / {bot} messages',
+        statsAverageReply: '~{count} chars per reply',
+        statsSwipes: { one: '{count} swipe', other: '{count} swipes' },
+        statsVisits: { one: '{count} visit', other: '{count} visits' },
+        statsVisited: 'First {first} · last {last}',
+        statsMinutes: '{minutes} min',
+        statsHours: '{hours} h {minutes} min',
+        statsEmpty: 'Nothing watched yet',
+        finaleTheEnd: 'THE END',
+        finaleComplete: 'You finished {series}',
+        finalePath: 'Your path',
+        rewatch: '↺ Rewatch from Episode 1',
+        playthrough: 'Playthrough {number}',
+        earlierPlaythroughs: 'Earlier playthroughs',
+        playthroughFinished: '{start} – {end}, finished',
+        playthroughUnfinished: '{start} – {end}, unfinished',
+        debugLog: { one: 'DEBUG LOG ({count} event)', other: 'DEBUG LOG ({count} events)' },
+        exportLog: 'Export',
+        exportTrace: 'Save trace',
+        redactContent: 'Hide message text',
+        noMatchingEvents: 'No matching events',
+        waitingForEvents: 'Waiting for events...'
+    },
+    es: {
+        episodeOf: 'Episodio {current} de {total}',
+        episodeCount: { one: '{count} episodio', other: '{count} episodios' },
+        episodeFallback: 'Episodio {number}',
+        stateMessage: 'Episodio {current}/{total}',
+        prev: '← Anterior',
+        next: 'Siguiente →',
+        previousEpisode: 'Episodio anterior',
+        nextEpisode: 'Siguiente episodio',
+        progressLabel: 'Progreso de la serie',
+        seasonProgressLabel: 'Progreso de la temporada {season}',
+        announceEpisode: 'Reproduciendo: {title}, episodio {current} de {total}',
+        final: 'Final',
+        chooseNext: 'ELIGE EL SIGUIENTE EPISODIO',
+        lockedExchanges: { one: '{count} intercambio más', other: '{count} intercambios más' },
+        lockedMinutes: { one: '{count} minuto más', other: '{count} minutos más' },
+        lockedKeyword: 'Momento clave: {keywords}',
+        episodeComplete: 'Episodio completado',
+        upNext: 'A continuación',
+        upNextCountdown: { one: 'Empieza en {count} segundo', other: 'Empieza en {count} segundos' },
+        upNextCancelled: 'Cuenta atrás cancelada',
+        playNow: 'Ver ahora',
+        episodes: 'EPISODIOS',
+        nowPlaying: 'Reproduciendo',
+        watched: 'Visto',
+        notYetReached: 'Aún no alcanzado',
+        seasonEpisode: 'Temporada {season}, episodio {episode}',
+        overallEpisodeOf: 'Episodio {current} de {total} en total',
+        seasonStateMessage: 'T{season}E{episode} · {current}/{total}',
+        seasonHeading: 'TEMPORADA {season}',
+        series: 'SERIE',
+        previouslyOn: 'ANTERIORMENTE',
+        edit: 'Editar',
+        save: 'Guardar',
+        cancel: 'Cancelar',
+        edited: '(editado)',
+        cardIssues: { one: '⚠ {count} problema en la tarjeta', other: '⚠ {count} problemas en la tarjeta' },
+        cardIssueNotACard: 'No es una tarjeta de personaje',
+        cardIssueUnknownSpec: 'Especificación desconocida "{detail}", leída como tarjeta V2',
+        cardIssueInvalidField: '{field} omitido: se esperaba {detail}',
+        cardIssueInvalidJson: '{field} omitido: JSON no válido',
+        cardIssueNoGreetings: 'No se encontraron saludos',
+        cardIssueNoFirstMessage: 'Sin primer mensaje; los episodios empiezan en el primer saludo alternativo',
+        injectionPreview: 'Contexto del próximo mensaje',
+        injectionTargetSystem: 'Se envía como mensaje del sistema',
+        injectionTargetMessage: 'Se añade antes de tu mensaje',
+        injectionNothing: 'No se añadirá nada',
+        continuity: 'Continuidad',
+        ledgerPeople: 'Personas',
+        ledgerPlaces: 'Lugares',
+        ledgerItems: 'Objetos',
+        ledgerPromises: 'Promesas',
+        ledgerEmpty: 'Aún no hay nada registrado',
+        ledgerAdd: 'Añadir',
+        ledgerRemove: 'Quitar',
+        statistics: 'Estadísticas',
+        statsWatchTime: 'Tiempo visto: {time}',
+        statsChatWatchTime: 'Todas las series de este chat: {time}',
+        statsMostRevisited: { one: 'Más revisitado: {title} ({count} visita)', other: 'Más revisitado: {title} ({count} visitas)' },
+        statsMessages: '{user} / {bot} mensajes',
+        statsAverageReply: '~{count} caracteres por respuesta',
+        statsSwipes: { one: '{count} deslizamiento', other: '{count} deslizamientos' },
+        statsVisits: { one: '{count} visita', other: '{count} visitas' },
+        statsVisited: 'Primera {first} · última {last}',
+        statsMinutes: '{minutes} min',
+        statsHours: '{hours} h {minutes} min',
+        statsEmpty: 'Aún no has visto nada',
+        finaleTheEnd: 'FIN',
+        finaleComplete: 'Has terminado {series}',
+        finalePath: 'Tu recorrido',
+        rewatch: '↺ Volver a ver desde el episodio 1',
+        playthrough: 'Recorrido {number}',
+        earlierPlaythroughs: 'Recorridos anteriores',
+        playthroughFinished: '{start} – {end}, terminado',
+        playthroughUnfinished: '{start} – {end}, sin terminar',
+        debugLog: { one: 'REGISTRO DE DEPURACIÓN ({count} evento)', other: 'REGISTRO DE DEPURACIÓN ({count} eventos)' },
+        exportLog: 'Exportar',
+        exportTrace: 'Guardar traza',
+        redactContent: 'Ocultar texto de mensajes',
+        noMatchingEvents: 'No hay eventos que coincidan',
+        waitingForEvents: 'Esperando eventos...'
+    },
+    fr: {
+        episodeOf: 'Épisode {current} sur {total}',
+        episodeCount: { one: '{count} épisode', other: '{count} épisodes' },
+        episodeFallback: 'Épisode {number}',
+        stateMessage: 'Épisode {current}/{total}',
+        prev: '← Préc.',
+        next: 'Suivant →',
+        previousEpisode: 'Épisode précédent',
+        nextEpisode: 'Épisode suivant',
+        progressLabel: 'Progression de la série',
+        seasonProgressLabel: 'Progression de la saison {season}',
+        announceEpisode: 'En cours : {title}, épisode {current} sur {total}',
+        final: 'Fin',
+        chooseNext: 'CHOISIS LE PROCHAIN ÉPISODE',
+        lockedExchanges: { one: 'encore {count} échange', other: 'encore {count} échanges' },
+        lockedMinutes: { one: 'encore {count} minute', other: 'encore {count} minutes' },
+        lockedKeyword: 'Moment clé : {keywords}',
+        episodeComplete: 'Épisode terminé',
+        upNext: 'À suivre',
+        upNextCountdown: { one: 'Commence dans {count} seconde', other: 'Commence dans {count} secondes' },
+        upNextCancelled: 'Compte à rebours annulé',
+        playNow: 'Lire maintenant',
+        episodes: 'ÉPISODES',
+        nowPlaying: 'En cours',
+        watched: 'Vu',
+        notYetReached: 'Pas encore atteint',
+        seasonEpisode: 'Saison {season}, épisode {episode}',
+        overallEpisodeOf: 'Épisode {current} sur {total} au total',
+        seasonStateMessage: 'S{season}É{episode} · {current}/{total}',
+        seasonHeading: 'SAISON {season}',
+        series: 'SÉRIE',
+        previouslyOn: 'PRÉCÉDEMMENT',
+        edit: 'Modifier',
+        save: 'Enregistrer',
+        cancel: 'Annuler',
+        edited: '(modifié)',
+        cardIssues: { one: '⚠ {count} problème de fiche', other: '⚠ {count} problèmes de fiche' },
+        cardIssueNotACard: 'Ce n’est pas une fiche de personnage',
+        cardIssueUnknownSpec: 'Spécification inconnue « {detail} », lue comme une fiche V2',
+        cardIssueInvalidField: '{field} ignoré : {detail} attendu',
+        cardIssueInvalidJson: '{field} ignoré : JSON invalide',
+        cardIssueNoGreetings: 'Aucun message d’accueil trouvé',
+        cardIssueNoFirstMessage: 'Pas de premier message ; les épisodes commencent au premier message d’accueil alternatif',
+        injectionPreview: 'Contexte du prochain message',
+        injectionTargetSystem: 'Envoyé comme message système',
+        injectionTargetMessage: 'Ajouté avant votre message',
+        injectionNothing: 'Rien ne sera ajouté',
+        continuity: 'Continuité',
+        ledgerPeople: 'Personnes',
+        ledgerPlaces: 'Lieux',
+        ledgerItems: 'Objets',
+        ledgerPromises: 'Promesses',
+        ledgerEmpty: 'Rien de suivi pour l’instant',
+        ledgerAdd: 'Ajouter',
+        ledgerRemove: 'Retirer',
+        statistics: 'Statistiques',
+        statsWatchTime: 'Temps de visionnage : {time}',
+        statsChatWatchTime: 'Toutes les séries de ce chat : {time}',
+        statsMostRevisited: { one: 'Le plus revu : {title} ({count} visite)', other: 'Le plus revu : {title} ({count} visites)' },
+        statsMessages: '{user} / {bot} messages',
+        statsAverageReply: '~{count} caractères par réponse',
+        statsSwipes: { one: '{count} swipe', other: '{count} swipes' },
+        statsVisits: { one: '{count} visite', other: '{count} visites' },
+        statsVisited: 'Première {first} · dernière {last}',
+        statsMinutes: '{minutes} min',
+        statsHours: '{hours} h {minutes} min',
+        statsEmpty: 'Rien de regardé pour l’instant',
+        finaleTheEnd: 'FIN',
+        finaleComplete: 'Tu as terminé {series}',
+        finalePath: 'Ton parcours',
+        rewatch: '↺ Revoir depuis l’épisode 1',
+        playthrough: 'Visionnage {number}',
+        earlierPlaythroughs: 'Visionnages précédents',
+        playthroughFinished: '{start} – {end}, terminé',
+        playthroughUnfinished: '{start} – {end}, inachevé',
+        debugLog: { one: 'JOURNAL DE DÉBOGAGE ({count} événement)', other: 'JOURNAL DE DÉBOGAGE ({count} événements)' },
+        exportLog: 'Exporter',
+        exportTrace: 'Enregistrer la trace',
+        redactContent: 'Masquer le texte des messages',
+        noMatchingEvents: 'Aucun événement correspondant',
+        waitingForEvents: 'En attente d’événements...'
+    },
+    de: {
+        episodeOf: 'Folge {current} von {total}',
+        episodeCount: { one: '{count} Folge', other: '{count} Folgen' },
+        episodeFallback: 'Folge {number}',
+        stateMessage: 'Folge {current}/{total}',
+        prev: '← Zurück',
+        next: 'Weiter →',
+        previousEpisode: 'Vorherige Folge',
+        nextEpisode: 'Nächste Folge',
+        progressLabel: 'Serienfortschritt',
+        seasonProgressLabel: 'Fortschritt von Staffel {season}',
+        announceEpisode: 'Läuft jetzt: {title}, Folge {current} von {total}',
+        final: 'Finale',
+        chooseNext: 'WÄHLE DIE NÄCHSTE FOLGE',
+        lockedExchanges: { one: 'noch {count} Wechsel', other: 'noch {count} Wechsel' },
+        lockedMinutes: { one: 'noch {count} Minute', other: 'noch {count} Minuten' },
+        lockedKeyword: 'Schlüsselmoment: {keywords}',
+        episodeComplete: 'Folge abgeschlossen',
+        upNext: 'Als Nächstes',
+        upNextCountdown: { one: 'Beginnt in {count} Sekunde', other: 'Beginnt in {count} Sekunden' },
+        upNextCancelled: 'Countdown abgebrochen',
+        playNow: 'Jetzt abspielen',
+        episodes: 'FOLGEN',
+        nowPlaying: 'Läuft gerade',
+        watched: 'Gesehen',
+        notYetReached: 'Noch nicht erreicht',
+        seasonEpisode: 'Staffel {season}, Folge {episode}',
+        overallEpisodeOf: 'Folge {current} von {total} insgesamt',
+        seasonStateMessage: 'S{season}F{episode} · {current}/{total}',
+        seasonHeading: 'STAFFEL {season}',
+        series: 'SERIE',
+        previouslyOn: 'WAS BISHER GESCHAH',
+        edit: 'Bearbeiten',
+        save: 'Speichern',
+        cancel: 'Abbrechen',
+        edited: '(bearbeitet)',
+        cardIssues: { one: '⚠ {count} Kartenproblem', other: '⚠ {count} Kartenprobleme' },
+        cardIssueNotACard: 'Keine Charakterkarte',
+        cardIssueUnknownSpec: 'Unbekannte Kartenspezifikation „{detail}“, als V2-Karte gelesen',
+        cardIssueInvalidField: '{field} übersprungen: {detail} erwartet',
+        cardIssueInvalidJson: '{field} übersprungen: kein gültiges JSON',
+        cardIssueNoGreetings: 'Keine Begrüßungen gefunden',
+        cardIssueNoFirstMessage: 'Keine erste Nachricht; die Episoden beginnen mit der ersten alternativen Begrüßung',
+        injectionPreview: 'Kontext der nächsten Nachricht',
+        injectionTargetSystem: 'Wird als Systemnachricht gesendet',
+        injectionTargetMessage: 'Wird vor deiner Nachricht eingefügt',
+        injectionNothing: 'Es wird nichts eingefügt',
+        continuity: 'Kontinuität',
+        ledgerPeople: 'Personen',
+        ledgerPlaces: 'Orte',
+        ledgerItems: 'Gegenstände',
+        ledgerPromises: 'Versprechen',
+        ledgerEmpty: 'Noch nichts erfasst',
+        ledgerAdd: 'Hinzufügen',
+        ledgerRemove: 'Entfernen',
+        statistics: 'Statistik',
+        statsWatchTime: 'Sehzeit: {time}',
+        statsChatWatchTime: 'Alle Serien in diesem Chat: {time}',
+        statsMostRevisited: { one: 'Am häufigsten besucht: {title} ({count} Besuch)', other: 'Am häufigsten besucht: {title} ({count} Besuche)' },
+        statsMessages: '{user} / {bot} Nachrichten',
+        statsAverageReply: '~{count} Zeichen pro Antwort',
+        statsSwipes: { one: '{count} Swipe', other: '{count} Swipes' },
+        statsVisits: { one: '{count} Besuch', other: '{count} Besuche' },
+        statsVisited: 'Zuerst {first} · zuletzt {last}',
+        statsMinutes: '{minutes} Min.',
+        statsHours: '{hours} Std. {minutes} Min.',
+        statsEmpty: 'Noch nichts angesehen',
+        finaleTheEnd: 'ENDE',
+        finaleComplete: 'Du hast {series} beendet',
+        finalePath: 'Dein Weg',
+        rewatch: '↺ Ab Folge 1 erneut ansehen',
+        playthrough: 'Durchlauf {number}',
+        earlierPlaythroughs: 'Frühere Durchläufe',
+        playthroughFinished: '{start} – {end}, beendet',
+        playthroughUnfinished: '{start} – {end}, abgebrochen',
+        debugLog: { one: 'DEBUG-PROTOKOLL ({count} Ereignis)', other: 'DEBUG-PROTOKOLL ({count} Ereignisse)' },
+        exportLog: 'Exportieren',
+        exportTrace: 'Trace speichern',
+        redactContent: 'Nachrichtentext ausblenden',
+        noMatchingEvents: 'Keine passenden Ereignisse',
+        waitingForEvents: 'Warte auf Ereignisse...'
+    },
+    pt: {
+        episodeOf: 'Episódio {current} de {total}',
+        episodeCount: { one: '{count} episódio', other: '{count} episódios' },
+        episodeFallback: 'Episódio {number}',
+        stateMessage: 'Episódio {current}/{total}',
+        prev: '← Anterior',
+        next: 'Próximo →',
+        previousEpisode: 'Episódio anterior',
+        nextEpisode: 'Próximo episódio',
+        progressLabel: 'Progresso da série',
+        seasonProgressLabel: 'Progresso da temporada {season}',
+        announceEpisode: 'Reproduzindo: {title}, episódio {current} de {total}',
+        final: 'Final',
+        chooseNext: 'ESCOLHA O PRÓXIMO EPISÓDIO',
+        lockedExchanges: { one: 'mais {count} troca', other: 'mais {count} trocas' },
+        lockedMinutes: { one: 'mais {count} minuto', other: 'mais {count} minutos' },
+        lockedKeyword: 'Momento-chave: {keywords}',
+        episodeComplete: 'Episódio concluído',
+        upNext: 'A seguir',
+        upNextCountdown: { one: 'Começa em {count} segundo', other: 'Começa em {count} segundos' },
+        upNextCancelled: 'Contagem regressiva cancelada',
+        playNow: 'Assistir agora',
+        episodes: 'EPISÓDIOS',
+        nowPlaying: 'Assistindo',
+        watched: 'Assistido',
+        notYetReached: 'Ainda não alcançado',
+        seasonEpisode: 'Temporada {season}, episódio {episode}',
+        overallEpisodeOf: 'Episódio {current} de {total} no total',
+        seasonStateMessage: 'T{season}E{episode} · {current}/{total}',
+        seasonHeading: 'TEMPORADA {season}',
+        series: 'SÉRIE',
+        previouslyOn: 'ANTERIORMENTE',
+        edit: 'Editar',
+        save: 'Salvar',
+        cancel: 'Cancelar',
+        edited: '(editado)',
+        cardIssues: { one: '⚠ {count} problema no cartão', other: '⚠ {count} problemas no cartão' },
+        cardIssueNotACard: 'Não é um cartão de personagem',
+        cardIssueUnknownSpec: 'Especificação desconhecida "{detail}", lida como cartão V2',
+        cardIssueInvalidField: '{field} ignorado: esperado {detail}',
+        cardIssueInvalidJson: '{field} ignorado: JSON inválido',
+        cardIssueNoGreetings: 'Nenhuma saudação encontrada',
+        cardIssueNoFirstMessage: 'Sem primeira mensagem; os episódios começam na primeira saudação alternativa',
+        injectionPreview: 'Contexto da próxima mensagem',
+        injectionTargetSystem: 'Enviado como mensagem do sistema',
+        injectionTargetMessage: 'Adicionado antes da sua mensagem',
+        injectionNothing: 'Nada será adicionado',
+        continuity: 'Continuidade',
+        ledgerPeople: 'Pessoas',
+        ledgerPlaces: 'Lugares',
+        ledgerItems: 'Itens',
+        ledgerPromises: 'Promessas',
+        ledgerEmpty: 'Nada registrado ainda',
+        ledgerAdd: 'Adicionar',
+        ledgerRemove: 'Remover',
+        statistics: 'Estatísticas',
+        statsWatchTime: 'Tempo assistido: {time}',
+        statsChatWatchTime: 'Todas as séries deste chat: {time}',
+        statsMostRevisited: { one: 'Mais revisitado: {title} ({count} visita)', other: 'Mais revisitado: {title} ({count} visitas)' },
+        statsMessages: '{user} / {bot} mensagens',
+        statsAverageReply: '~{count} caracteres por resposta',
+        statsSwipes: { one: '{count} swipe', other: '{count} swipes' },
+        statsVisits: { one: '{count} visita', other: '{count} visitas' },
+        statsVisited: 'Primeira {first} · última {last}',
+        statsMinutes: '{minutes} min',
+        statsHours: '{hours} h {minutes} min',
+        statsEmpty: 'Nada assistido ainda',
+        finaleTheEnd: 'FIM',
+        finaleComplete: 'Você terminou {series}',
+        finalePath: 'Seu caminho',
+        rewatch: '↺ Rever a partir do episódio 1',
+        playthrough: 'Jornada {number}',
+        earlierPlaythroughs: 'Jornadas anteriores',
+        playthroughFinished: '{start} – {end}, concluída',
+        playthroughUnfinished: '{start} – {end}, inacabada',
+        debugLog: { one: 'LOG DE DEPURAÇÃO ({count} evento)', other: 'LOG DE DEPURAÇÃO ({count} eventos)' },
+        exportLog: 'Exportar',
+        exportTrace: 'Salvar rastro',
+        redactContent: 'Ocultar texto das mensagens',
+        noMatchingEvents: 'Nenhum evento correspondente',
+        waitingForEvents: 'Aguardando eventos...'
+    },
+    ru: {
+        episodeOf: 'Эпизод {current} из {total}',
+        episodeCount: {
+            one: '{count} эпизод',
+            few: '{count} эпизода',
+            many: '{count} эпизодов',
+            other: '{count} эпизода'
+        },
+        episodeFallback: 'Эпизод {number}',
+        stateMessage: 'Эпизод {current}/{total}',
+        prev: '← Назад',
+        next: 'Далее →',
+        previousEpisode: 'Предыдущая серия',
+        nextEpisode: 'Следующая серия',
+        progressLabel: 'Прогресс сериала',
+        seasonProgressLabel: 'Прогресс сезона {season}',
+        announceEpisode: 'Сейчас идёт: {title}, серия {current} из {total}',
+        final: 'Финал',
+        chooseNext: 'ВЫБЕРИТЕ СЛЕДУЮЩИЙ ЭПИЗОД',
+        lockedExchanges: {
+            one: 'ещё {count} обмен',
+            few: 'ещё {count} обмена',
+            many: 'ещё {count} обменов',
+            other: 'ещё {count} обмена'
+        },
+        lockedMinutes: {
+            one: 'ещё {count} минута',
+            few: 'ещё {count} минуты',
+            many: 'ещё {count} минут',
+            other: 'ещё {count} минуты'
+        },
+        lockedKeyword: 'Ключевой момент: {keywords}',
+        episodeComplete: 'Эпизод завершён',
+        upNext: 'Далее',
+        upNextCountdown: {
+            one: 'Начнётся через {count} секунду',
+            few: 'Начнётся через {count} секунды',
+            many: 'Начнётся через {count} секунд',
+            other: 'Начнётся через {count} секунды'
+        },
+        upNextCancelled: 'Обратный отсчёт отменён',
+        playNow: 'Смотреть сейчас',
+        episodes: 'ЭПИЗОДЫ',
+        nowPlaying: 'Сейчас идёт',
+        watched: 'Просмотрено',
+        notYetReached: 'Ещё не открыт',
+        seasonEpisode: 'Сезон {season}, эпизод {episode}',
+        overallEpisodeOf: 'Эпизод {current} из {total} всего',
+        seasonStateMessage: 'С{season}Э{episode} · {current}/{total}',
+        seasonHeading: 'СЕЗОН {season}',
+        series: 'СЕРИАЛ',
+        previouslyOn: 'РАНЕЕ',
+        edit: 'Изменить',
+        save: 'Сохранить',
+        cancel: 'Отмена',
+        edited: '(изменено)',
+        cardIssues: {
+            one: '⚠ {count} проблема в карточке',
+            few: '⚠ {count} проблемы в карточке',
+            many: '⚠ {count} проблем в карточке',
+            other: '⚠ {count} проблемы в карточке'
+        },
+        cardIssueNotACard: 'Это не карточка персонажа',
+        cardIssueUnknownSpec: 'Неизвестная спецификация «{detail}», прочитана как карточка V2',
+        cardIssueInvalidField: '{field} пропущено: ожидалось {detail}',
+        cardIssueInvalidJson: '{field} пропущено: некорректный JSON',
+        cardIssueNoGreetings: 'Приветствия не найдены',
+        cardIssueNoFirstMessage: 'Нет первого сообщения; эпизоды начинаются с первого альтернативного приветствия',
+        injectionPreview: 'Контекст следующего сообщения',
+        injectionTargetSystem: 'Отправляется как системное сообщение',
+        injectionTargetMessage: 'Добавляется перед вашим сообщением',
+        injectionNothing: 'Ничего не будет добавлено',
+        continuity: 'Непрерывность',
+        ledgerPeople: 'Люди',
+        ledgerPlaces: 'Места',
+        ledgerItems: 'Предметы',
+        ledgerPromises: 'Обещания',
+        ledgerEmpty: 'Пока ничего не отмечено',
+        ledgerAdd: 'Добавить',
+        ledgerRemove: 'Удалить',
+        statistics: 'Статистика',
+        statsWatchTime: 'Время просмотра: {time}',
+        statsChatWatchTime: 'Все сериалы в этом чате: {time}',
+        statsMostRevisited: {
+            one: 'Чаще всего: {title} ({count} посещение)',
+            few: 'Чаще всего: {title} ({count} посещения)',
+            many: 'Чаще всего: {title} ({count} посещений)',
+            other: 'Чаще всего: {title} ({count} посещения)'
+        },
+        statsMessages: '{user} / {bot} сообщ.',
+        statsAverageReply: '~{count} симв. на ответ',
+        statsSwipes: {
+            one: '{count} свайп',
+            few: '{count} свайпа',
+            many: '{count} свайпов',
+            other: '{count} свайпа'
+        },
+        statsVisits: {
+            one: '{count} посещение',
+            few: '{count} посещения',
+            many: '{count} посещений',
+            other: '{count} посещения'
+        },
+        statsVisited: 'Впервые {first} · последний раз {last}',
+        statsMinutes: '{minutes} мин',
+        statsHours: '{hours} ч {minutes} мин',
+        statsEmpty: 'Пока ничего не просмотрено',
+        finaleTheEnd: 'КОНЕЦ',
+        finaleComplete: 'Вы досмотрели {series}',
+        finalePath: 'Ваш путь',
+        rewatch: '↺ Пересмотреть с 1-го эпизода',
+        playthrough: 'Прохождение {number}',
+        earlierPlaythroughs: 'Прошлые прохождения',
+        playthroughFinished: '{start} – {end}, завершено',
+        playthroughUnfinished: '{start} – {end}, не завершено',
+        debugLog: {
+            one: 'ЖУРНАЛ ОТЛАДКИ ({count} событие)',
+            few: 'ЖУРНАЛ ОТЛАДКИ ({count} события)',
+            many: 'ЖУРНАЛ ОТЛАДКИ ({count} событий)',
+            other: 'ЖУРНАЛ ОТЛАДКИ ({count} события)'
+        },
+        exportLog: 'Экспорт',
+        exportTrace: 'Сохранить трассу',
+        redactContent: 'Скрывать текст сообщений',
+        noMatchingEvents: 'Нет подходящих событий',
+        waitingForEvents: 'Ожидание событий...'
+    },
+    ja: {
+        episodeOf: '第{current}話 / 全{total}話',
+        episodeCount: '全{count}話',
+        episodeFallback: '第{number}話',
+        stateMessage: '第{current}話/全{total}話',
+        prev: '← 前へ',
+        next: '次へ →',
+        previousEpisode: '前のエピソード',
+        nextEpisode: '次のエピソード',
+        progressLabel: 'シリーズの進行状況',
+        seasonProgressLabel: 'シーズン{season}の進行状況',
+        announceEpisode: '再生中：{title}（{total}話中{current}話）',
+        final: '最終話',
+        chooseNext: '次のエピソードを選択',
+        lockedExchanges: 'あと{count}回のやり取り',
+        lockedMinutes: 'あと{count}分',
+        lockedKeyword: '重要な場面: {keywords}',
+        episodeComplete: 'エピソード完了',
+        upNext: '次のエピソード',
+        upNextCountdown: '{count}秒後に再生',
+        upNextCancelled: 'カウントダウンを中止しました',
+        playNow: '今すぐ再生',
+        episodes: 'エピソード一覧',
+        nowPlaying: '再生中',
+        watched: '視聴済み',
+        notYetReached: '未到達',
+        seasonEpisode: 'シーズン{season} 第{episode}話',
+        overallEpisodeOf: '全体で第{current}話 / 全{total}話',
+        seasonStateMessage: 'S{season}E{episode} · {current}/{total}',
+        seasonHeading: 'シーズン{season}',
+        series: 'シリーズ',
+        previouslyOn: 'これまでのあらすじ',
+        edit: '編集',
+        save: '保存',
+        cancel: 'キャンセル',
+        edited: '(編集済み)',
+        cardIssues: '⚠ カードの問題 {count}件',
+        cardIssueNotACard: 'キャラクターカードではありません',
+        cardIssueUnknownSpec: '不明な仕様「{detail}」、V2カードとして読み込みました',
+        cardIssueInvalidField: '{field}をスキップ: {detail}が必要です',
+        cardIssueInvalidJson: '{field}をスキップ: 無効なJSONです',
+        cardIssueNoGreetings: '挨拶文が見つかりません',
+        cardIssueNoFirstMessage: '最初のメッセージがありません。エピソードは最初の代替挨拶から始まります',
+        injectionPreview: '次のプロンプトの文脈',
+        injectionTargetSystem: 'システムメッセージとして送信',
+        injectionTargetMessage: 'あなたのメッセージの前に追加',
+        injectionNothing: '何も追加されません',
+        continuity: '継続性',
+        ledgerPeople: '人物',
+        ledgerPlaces: '場所',
+        ledgerItems: 'アイテム',
+        ledgerPromises: '約束',
+        ledgerEmpty: 'まだ記録はありません',
+        ledgerAdd: '追加',
+        ledgerRemove: '削除',
+        statistics: '統計',
+        statsWatchTime: '視聴時間: {time}',
+        statsChatWatchTime: 'このチャットの全シリーズ: {time}',
+        statsMostRevisited: '最も再訪: {title}（{count}回）',
+        statsMessages: 'メッセージ {user} / {bot}',
+        statsAverageReply: '返信あたり約{count}文字',
+        statsSwipes: 'スワイプ{count}回',
+        statsVisits: '訪問{count}回',
+        statsVisited: '初回 {first} · 最終 {last}',
+        statsMinutes: '{minutes}分',
+        statsHours: '{hours}時間{minutes}分',
+        statsEmpty: 'まだ視聴していません',
+        finaleTheEnd: '完',
+        finaleComplete: '{series}を見終わりました',
+        finalePath: 'あなたのルート',
+        rewatch: '↺ 第1話から見直す',
+        playthrough: '{number}周目',
+        earlierPlaythroughs: '過去の周回',
+        playthroughFinished: '{start} – {end}、完走',
+        playthroughUnfinished: '{start} – {end}、未完',
+        debugLog: 'デバッグログ（{count}件）',
+        exportLog: 'エクスポート',
+        exportTrace: 'トレースを保存',
+        redactContent: 'メッセージ本文を隠す',
+        noMatchingEvents: '該当するイベントはありません',
+        waitingForEvents: 'イベント待機中...'
+    }
+};
+
+// ===== PROMPT CATALOG =====
+
+const PROMPT_MESSAGES: Catalog<PromptMessageKey> = {
+    en: {
+        episodeContext: '[Chubflix Episode Context: Currently on {title} ({current}/{total}). Maintain narrative continuity with previous episodes.]',
+        seasonEpisodeContext: '[Chubflix Episode Context: Currently on {title} (Season {season}, Episode {episode}; {current}/{total} overall). Maintain narrative continuity with previous episodes.]',
+        characterEpisode: '{title} from {character}\'s series',
+        episodeFallback: 'Episode {number}',
+        loreHeading: 'Episode notes',
+        loreLocation: 'Location: {location}',
+        loreCast: 'Also present: {cast}',
+        loreTone: 'Tone: {tone}',
+        loreFacts: 'Facts that must stay true:',
+        continuityHeading: 'Continuity so far',
+        continuityPeople: 'People: {items}',
+        continuityPlaces: 'Places: {items}',
+        continuityItems: 'Items given: {items}',
+        continuityPromises: 'Promises made:',
+        previouslyOn: 'Previously on {series}...'
+    },
+    es: {
+        episodeContext: '[Contexto del episodio de Chubflix: actualmente en {title} ({current}/{total}). Mantén la continuidad narrativa con los episodios anteriores.]',
+        seasonEpisodeContext: '[Contexto del episodio de Chubflix: actualmente en {title} (temporada {season}, episodio {episode}; {current}/{total} en total). Mantén la continuidad narrativa con los episodios anteriores.]',
+        characterEpisode: '{title} de la serie de {character}',
+        episodeFallback: 'Episodio {number}',
+        loreHeading: 'Notas del episodio',
+        loreLocation: 'Lugar: {location}',
+        loreCast: 'También presentes: {cast}',
+        loreTone: 'Tono: {tone}',
+        loreFacts: 'Hechos que deben mantenerse:',
+        continuityHeading: 'Continuidad hasta ahora',
+        continuityPeople: 'Personas: {items}',
+        continuityPlaces: 'Lugares: {items}',
+        continuityItems: 'Objetos entregados: {items}',
+        continuityPromises: 'Promesas hechas:',
+        previouslyOn: 'Anteriormente en {series}...'
+    },
+    fr: {
+        episodeContext: '[Contexte de l’épisode Chubflix : actuellement sur {title} ({current}/{total}). Maintiens la continuité narrative avec les épisodes précédents.]',
+        seasonEpisodeContext: '[Contexte de l’épisode Chubflix : actuellement sur {title} (saison {season}, épisode {episode} ; {current}/{total} au total). Maintiens la continuité narrative avec les épisodes précédents.]',
+        characterEpisode: '{title} de la série de {character}',
+        episodeFallback: 'Épisode {number}',
+        loreHeading: 'Notes de l’épisode',
+        loreLocation: 'Lieu : {location}',
+        loreCast: 'Également présents : {cast}',
+        loreTone: 'Ton : {tone}',
+        loreFacts: 'Faits qui doivent rester vrais :',
+        continuityHeading: 'Continuité jusqu’ici',
+        continuityPeople: 'Personnes : {items}',
+        continuityPlaces: 'Lieux : {items}',
+        continuityItems: 'Objets donnés : {items}',
+        continuityPromises: 'Promesses faites :',
+        previouslyOn: 'Précédemment dans {series}...'
+    },
+    de: {
+        episodeContext: '[Chubflix-Episodenkontext: Aktuell in {title} ({current}/{total}). Achte auf erzählerische Kontinuität mit den vorherigen Folgen.]',
+        seasonEpisodeContext: '[Chubflix-Episodenkontext: Aktuell in {title} (Staffel {season}, Folge {episode}; {current}/{total} insgesamt). Achte auf erzählerische Kontinuität mit den vorherigen Folgen.]',
+        characterEpisode: '{title} aus der Serie von {character}',
+        episodeFallback: 'Folge {number}',
+        loreHeading: 'Notizen zur Folge',
+        loreLocation: 'Ort: {location}',
+        loreCast: 'Ebenfalls anwesend: {cast}',
+        loreTone: 'Tonfall: {tone}',
+        loreFacts: 'Fakten, die gelten müssen:',
+        continuityHeading: 'Kontinuität bisher',
+        continuityPeople: 'Personen: {items}',
+        continuityPlaces: 'Orte: {items}',
+        continuityItems: 'Übergebene Gegenstände: {items}',
+        continuityPromises: 'Gegebene Versprechen:',
+        previouslyOn: 'Was bisher bei {series} geschah...'
+    },
+    pt: {
+        episodeContext: '[Contexto do episódio Chubflix: atualmente em {title} ({current}/{total}). Mantenha a continuidade narrativa com os episódios anteriores.]',
+        seasonEpisodeContext: '[Contexto do episódio Chubflix: atualmente em {title} (temporada {season}, episódio {episode}; {current}/{total} no total). Mantenha a continuidade narrativa com os episódios anteriores.]',
+        characterEpisode: '{title} da série de {character}',
+        episodeFallback: 'Episódio {number}',
+        loreHeading: 'Notas do episódio',
+        loreLocation: 'Local: {location}',
+        loreCast: 'Também presentes: {cast}',
+        loreTone: 'Tom: {tone}',
+        loreFacts: 'Fatos que devem continuar verdadeiros:',
+        continuityHeading: 'Continuidade até agora',
+        continuityPeople: 'Pessoas: {items}',
+        continuityPlaces: 'Lugares: {items}',
+        continuityItems: 'Itens entregues: {items}',
+        continuityPromises: 'Promessas feitas:',
+        previouslyOn: 'Anteriormente em {series}...'
+    },
+    ru: {
+        episodeContext: '[Контекст эпизода Chubflix: сейчас идёт {title} ({current}/{total}). Сохраняй непрерывность повествования с предыдущими эпизодами.]',
+        seasonEpisodeContext: '[Контекст эпизода Chubflix: сейчас идёт {title} (сезон {season}, эпизод {episode}; {current}/{total} всего). Сохраняй непрерывность повествования с предыдущими эпизодами.]',
+        characterEpisode: '{title} (сериал: {character})',
+        episodeFallback: 'Эпизод {number}',
+        loreHeading: 'Заметки к эпизоду',
+        loreLocation: 'Место: {location}',
+        loreCast: 'Также присутствуют: {cast}',
+        loreTone: 'Тон: {tone}',
+        loreFacts: 'Факты, которые должны оставаться верными:',
+        continuityHeading: 'Что уже известно',
+        continuityPeople: 'Люди: {items}',
+        continuityPlaces: 'Места: {items}',
+        continuityItems: 'Переданные предметы: {items}',
+        continuityPromises: 'Данные обещания:',
+        previouslyOn: 'Ранее в «{series}»...'
+    },
+    ja: {
+        episodeContext: '[Chubflixエピソード情報: 現在は{title}（{current}/{total}）。これまでのエピソードとの物語の連続性を保ってください。]',
+        seasonEpisodeContext: '[Chubflixエピソード情報: 現在は{title}（シーズン{season} 第{episode}話、全体{current}/{total}）。これまでのエピソードとの物語の連続性を保ってください。]',
+        characterEpisode: '{character}のシリーズの{title}',
+        episodeFallback: '第{number}話',
+        loreHeading: 'エピソードメモ',
+        loreLocation: '舞台: {location}',
+        loreCast: '他の登場人物: {cast}',
+        loreTone: 'トーン: {tone}',
+        loreFacts: '守るべき事実:',
+        continuityHeading: 'これまでの設定',
+        continuityPeople: '人物: {items}',
+        continuityPlaces: '場所: {items}',
+        continuityItems: '渡された物: {items}',
+        continuityPromises: '交わされた約束:',
+        previouslyOn: 'これまでの{series}は…'
+    }
+};
+
+// ===== LOCALE RESOLUTION =====
+
+function isLocale(value: string): value is Locale {
+    return (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve a locale setting to a supported locale. `auto` uses the
+ * fallback (the browser language or the UI locale), matched on its
+ * language subtag, and English when that isn't supported.
+ */
+export function resolveLocale(setting: string | undefined, fallback: string | undefined): Locale {
+    const candidate = (!setting || setting === 'auto') ? fallback : setting;
+    const language = (candidate || 'en').toLowerCase().split(/[-_]/)[0];
+    return isLocale(language) ? language : 'en';
+}
+
+export function browserLanguage(): string | undefined {
+    return typeof navigator !== 'undefined' ? navigator.language : undefined;
+}
+
+// ===== FORMATTING =====
+
+function interpolate(template: string, params: MessageParams): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        params[name] !== undefined ? String(params[name]) : match);
+}
+
+function createTranslator<K extends string>(catalog: Catalog<K>, locale: Locale): Translate<K> {
+    const pluralRules = new Intl.PluralRules(locale);
+
+    return (key, params = {}) => {
+        const message = catalog[locale]?.[key] ?? catalog.en[key];
+        if (typeof message === 'string') {
+            return interpolate(message, params);
+        }
+        const count = Number(params.count ?? 0);
+        const form = message[pluralRules.select(count)] ?? message.other;
+        return interpolate(form, params);
+    };
+}
+
+export function createUiTranslator(locale: Locale): Translate<UiMessageKey> {
+    return createTranslator(UI_MESSAGES, locale);
+}
+
+export function createPromptTranslator(locale: Locale): Translate<PromptMessageKey> {
+    return createTranslator(PROMPT_MESSAGES, locale);
+}
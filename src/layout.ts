@@ -0,0 +1,47 @@
+/**
+ * Chubflix Layout Modes
+ *
+ * The stage adapts to the space its position gives it: a single-row
+ * ribbon in a short strip, the standard column in a narrow panel, and a
+ * wide layout with the episode browser beside the details. The layout
+ * follows the container's size unless the config picks one.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export type LayoutMode = 'ribbon' | 'column' | 'wide';
+
+export type LayoutSetting = 'auto' | LayoutMode;
+
+export type ContainerSize = {
+    width: number;
+    height: number;
+};
+
+// ===== CONSTANTS =====
+
+/** Containers this short or shorter get the ribbon */
+export const RIBBON_MAX_HEIGHT = 160;
+
+/** Containers at least this wide get the wide layout */
+export const WIDE_MIN_WIDTH = 560;
+
+const LAYOUT_MODES: LayoutMode[] = ['ribbon', 'column', 'wide'];
+
+// ===== CHOOSING =====
+
+export function isLayoutMode(value: unknown): value is LayoutMode {
+    return typeof value === 'string' && (LAYOUT_MODES as string[]).includes(value);
+}
+
+/**
+ * The layout for a container. Until the container has been measured the
+ * standard column is used. An unknown setting is treated as `auto`.
+ */
+export function chooseLayout(setting: LayoutSetting, size: ContainerSize | null): LayoutMode {
+    if (isLayoutMode(setting)) return setting;
+    if (!size || size.width === 0 || size.height === 0) return 'column';
+    if (size.height <= RIBBON_MAX_HEIGHT) return 'ribbon';
+    if (size.width >= WIDE_MIN_WIDTH) return 'wide';
+    return 'column';
+}
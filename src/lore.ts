@@ -0,0 +1,73 @@
+/**
+ * Chubflix Episode Lore
+ *
+ * Per-episode notes injected only while that episode plays: where it is
+ * set, who else is in it, the tone to write in and facts that must stay
+ * true. Lore entries work like a small episode-scoped lorebook: each is
+ * injected only when the user's message mentions one of its keywords.
+ */
+
+import { Translate } from './i18n';
+
+// ===== TYPE DEFINITIONS =====
+
+export type LoreEntry = {
+    /** Phrases of which at least one must appear in the user's message */
+    keywords: string[];
+    content: string;
+};
+
+export type EpisodeLore = {
+    location: string | null;
+    /** Supporting characters, one description each */
+    cast: string[];
+    /** Tone or genre directive */
+    tone: string | null;
+    facts: string[];
+    entries: LoreEntry[];
+};
+
+type LoreMessageKey = 'loreHeading' | 'loreLocation' | 'loreCast' | 'loreTone' | 'loreFacts';
+
+// ===== LORE =====
+
+export function hasLore(lore: EpisodeLore | null): lore is EpisodeLore {
+    return !!lore && (lore.location !== null || lore.cast.length > 0 || lore.tone !== null
+        || lore.facts.length > 0 || lore.entries.length > 0);
+}
+
+/**
+ * The entries whose keywords appear in a message, matched
+ * case-insensitively.
+ */
+export function matchLoreEntries(lore: EpisodeLore | null, content: string): LoreEntry[] {
+    if (!lore || content.length === 0) return [];
+    const haystack = content.toLowerCase();
+    return lore.entries.filter(entry => entry.keywords.some(keyword => haystack.includes(keyword.toLowerCase())));
+}
+
+/**
+ * Format the episode's notes and the triggered entries as one bracketed
+ * block, or null when there is nothing to say.
+ */
+export function formatLore(lore: EpisodeLore | null, triggered: LoreEntry[], translate: Translate<LoreMessageKey>): string | null {
+    if (!lore) return null;
+
+    const lines: string[] = [];
+    if (lore.location !== null) {
+        lines.push(translate('loreLocation', { location: lore.location }));
+    }
+    if (lore.cast.length > 0) {
+        lines.push(translate('loreCast', { cast: lore.cast.join('; ') }));
+    }
+    if (lore.tone !== null) {
+        lines.push(translate('loreTone', { tone: lore.tone }));
+    }
+    if (lore.facts.length > 0) {
+        lines.push(translate('loreFacts'), ...lore.facts.map(fact => `- ${fact}`));
+    }
+    lines.push(...triggered.map(entry => entry.content));
+
+    if (lines.length === 0) return null;
+    return `[${translate('loreHeading')}\n${lines.join('\n')}]`;
+}
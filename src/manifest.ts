@@ -0,0 +1,476 @@
+/**
+ * Chubflix Episode Manifest
+ *
+ * Builds the typed episode list for a character from, in order of precedence:
+ *  1. a card-level JSON manifest stored under `extensions.chubflix`
+ *  2. a front-matter block at the top of each greeting
+ *  3. heuristics on the greeting's first lines (title, season numbering)
+ *
+ * Fields are merged per episode, so a card manifest may override only the
+ * title of an episode whose synopsis comes from its front matter.
+ */
+
+import { UnlockRules } from './unlock';
+import { EpisodeLore, LoreEntry } from './lore';
+
+// ===== TYPE DEFINITIONS =====
+
+export type EpisodeSource = 'manifest' | 'frontmatter' | 'heuristic';
+
+export type Episode = {
+    /** Stable identifier, defaults to the 1-based episode number */
+    id: string;
+    /** Position of the greeting (0 = first_mes) */
+    index: number;
+    /** Null when no title could be found; the stage shows a localized fallback */
+    title: string | null;
+    synopsis: string | null;
+    tags: string[];
+    season: number | null;
+    /** Number within its season */
+    episodeNumber: number | null;
+    /** Raw successor references (episode ids or 1-based numbers) */
+    next: string[];
+    contentWarnings: string[];
+    /** Conditions gating the way on from this episode */
+    unlock: UnlockRules | null;
+    /** Injection template overriding the configured one for this episode */
+    contextTemplate: string | null;
+    /** Notes injected only while this episode plays */
+    lore: EpisodeLore | null;
+    /** The start of the greeting's text, for the Up Next teaser */
+    opening: string | null;
+    /** Where the title came from */
+    source: EpisodeSource;
+};
+
+type EpisodeFields = Partial<Omit<Episode, 'index' | 'opening' | 'source'>>;
+
+type RawFields = Record<string, unknown>;
+
+// Extension key holding the card-level manifest
+export const MANIFEST_EXTENSION_KEY = 'chubflix';
+
+// ===== VALUE HELPERS =====
+
+// Lowercase and drop separators so `content_warnings`, `Content Warnings`
+// and `contentWarnings` all land on the same key
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function asString(value: unknown): string | undefined {
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string') return undefined;
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function asList(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) {
+        return value.map(asString).filter((item): item is string => item !== undefined);
+    }
+    const single = asString(value);
+    if (single === undefined) return undefined;
+    return single.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function asNumber(value: unknown): number | undefined {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    const str = asString(value);
+    if (str === undefined) return undefined;
+    const match = str.match(/\d+/);
+    return match ? parseInt(match[0], 10) : undefined;
+}
+
+// Like asList, but a single string stays one item: cast descriptions and
+// facts often contain commas
+function asItems(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) return asList(value);
+    const single = asString(value);
+    return single === undefined ? undefined : [single];
+}
+
+function pick(fields: RawFields, ...keys: string[]): unknown {
+    for (const key of keys) {
+        if (fields[key] !== undefined) return fields[key];
+    }
+    return undefined;
+}
+
+function normalizeKeys(raw: RawFields): RawFields {
+    const fields: RawFields = {};
+    Object.keys(raw).forEach(key => {
+        fields[normalizeKey(key)] = raw[key];
+    });
+    return fields;
+}
+
+/**
+ * Unlock rules come either nested (`unlock: { exchanges: 5 }`, card
+ * manifest) or as flat keys (`unlock_exchanges: 5`, front matter).
+ */
+function toUnlockRules(fields: RawFields): UnlockRules | undefined {
+    const nested = fields.unlock && typeof fields.unlock === 'object' && !Array.isArray(fields.unlock)
+        ? normalizeKeys(fields.unlock as RawFields)
+        : {};
+
+    const minExchanges = asNumber(pick(nested, 'exchanges', 'minexchanges') ?? pick(fields, 'unlockexchanges', 'minexchanges'));
+    const keywords = asList(pick(nested, 'keywords', 'phrases') ?? pick(fields, 'unlockkeywords', 'unlockphrases'));
+    const minMinutes = asNumber(pick(nested, 'minutes', 'minminutes') ?? pick(fields, 'unlockminutes', 'minminutes'));
+    const hint = asString(pick(nested, 'hint') ?? pick(fields, 'unlockhint'));
+
+    if (minExchanges === undefined && keywords === undefined && minMinutes === undefined) {
+        return undefined;
+    }
+    return {
+        minExchanges: minExchanges ?? null,
+        keywords: keywords ?? [],
+        minMinutes: minMinutes ?? null,
+        hint: hint ?? null
+    };
+}
+
+function toLoreEntry(raw: unknown): LoreEntry | null {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+    const fields = normalizeKeys(raw as RawFields);
+    const keywords = asList(pick(fields, 'keywords', 'keys'));
+    const content = asString(pick(fields, 'content', 'text'));
+    if (!keywords || keywords.length === 0 || content === undefined) return null;
+    return { keywords, content };
+}
+
+/**
+ * Lore comes either nested (`lore: { location: ..., entries: [...] }`,
+ * card manifest) or as flat keys (`location: ...`, front matter). Keyword
+ * entries can only be given nested.
+ */
+function toLore(fields: RawFields): EpisodeLore | undefined {
+    const nested = fields.lore && typeof fields.lore === 'object' && !Array.isArray(fields.lore)
+        ? normalizeKeys(fields.lore as RawFields)
+        : {};
+
+    const location = asString(pick(nested, 'location', 'setting') ?? pick(fields, 'location'));
+    const cast = asItems(pick(nested, 'cast') ?? pick(fields, 'cast'));
+    const tone = asString(pick(nested, 'tone') ?? pick(fields, 'tone'));
+    const facts = asItems(pick(nested, 'facts') ?? pick(fields, 'facts'));
+    const rawEntries = pick(nested, 'entries');
+    const entries = Array.isArray(rawEntries)
+        ? rawEntries.map(toLoreEntry).filter((entry): entry is LoreEntry => entry !== null)
+        : [];
+
+    if (location === undefined && cast === undefined && tone === undefined && facts === undefined && entries.length === 0) {
+        return undefined;
+    }
+    return {
+        location: location ?? null,
+        cast: cast ?? [],
+        tone: tone ?? null,
+        facts: facts ?? [],
+        entries
+    };
+}
+
+/**
+ * Map loosely-keyed manifest data onto episode fields, ignoring anything
+ * that doesn't have the expected shape.
+ */
+function toEpisodeFields(raw: RawFields): EpisodeFields {
+    const fields = normalizeKeys(raw);
+
+    const result: EpisodeFields = {};
+    const id = asString(pick(fields, 'id'));
+    const title = asString(pick(fields, 'title', 'name'));
+    const synopsis = asString(pick(fields, 'synopsis', 'summary', 'description'));
+    const tags = asList(pick(fields, 'tags'));
+    const season = asNumber(pick(fields, 'season'));
+    const episodeNumber = asNumber(pick(fields, 'episode', 'episodenumber'));
+    const next = asList(pick(fields, 'next'));
+    const contentWarnings = asList(pick(fields, 'contentwarnings', 'warnings', 'cw'));
+    const unlock = toUnlockRules(fields);
+    const contextTemplate = asString(pick(fields, 'contexttemplate'));
+    const lore = toLore(fields);
+
+    if (id !== undefined) result.id = id;
+    if (title !== undefined) result.title = title;
+    if (synopsis !== undefined) result.synopsis = synopsis;
+    if (tags !== undefined) result.tags = tags;
+    if (season !== undefined) result.season = season;
+    if (episodeNumber !== undefined) result.episodeNumber = episodeNumber;
+    if (next !== undefined) result.next = next;
+    if (contentWarnings !== undefined) result.contentWarnings = contentWarnings;
+    if (unlock !== undefined) result.unlock = unlock;
+    if (contextTemplate !== undefined) result.contextTemplate = contextTemplate;
+    if (lore !== undefined) result.lore = lore;
+    return result;
+}
+
+// ===== FRONT MATTER =====
+
+const FRONT_MATTER_FENCE = /^(-{3,}|\.{3})\s*$/;
+const FRONT_MATTER_KEY = /^([A-Za-z][\w \t-]*?)\s*:\s*(.*)$/;
+const FRONT_MATTER_ITEM = /^-\s+(.*)$/;
+const KNOWN_KEYS = ['id', 'title', 'name', 'synopsis', 'summary', 'description', 'tags',
+    'season', 'episode', 'episodenumber', 'next', 'contentwarnings', 'warnings', 'cw', 'unlockexchanges', 'minexchanges',
+    'unlockkeywords', 'unlockphrases', 'unlockminutes', 'minminutes', 'unlockhint', 'contexttemplate',
+    'location', 'cast', 'tone', 'facts'];
+
+function unquote(value: string): string {
+    const match = value.match(/^(["'])(.*)\1$/);
+    return match ? match[2] : value;
+}
+
+function parseScalar(value: string): string | string[] {
+    const trimmed = value.trim();
+    const list = trimmed.match(/^\[(.*)\]$/);
+    if (list) {
+        return list[1].split(',').map(item => unquote(item.trim())).filter(item => item.length > 0);
+    }
+    return unquote(trimmed);
+}
+
+/**
+ * Parse a `---` fenced front-matter block at the top of a greeting.
+ *
+ * Only a small YAML subset is understood: `key: value`, inline `[a, b]`
+ * lists and `- item` block lists. A fenced block containing anything else
+ * (e.g. a markdown rule followed by prose) is not treated as front matter.
+ */
+export function parseFrontMatter(greeting: string): { fields: EpisodeFields | null; body: string } {
+    const lines = greeting.replace(/^\s+/, '').split(/\r?\n/);
+    if (lines.length < 2 || !FRONT_MATTER_FENCE.test(lines[0])) {
+        return { fields: null, body: greeting };
+    }
+
+    const raw: Record<string, string | string[]> = {};
+    let currentKey: string | null = null;
+
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i].trim();
+
+        if (FRONT_MATTER_FENCE.test(line)) {
+            const known = Object.keys(raw).some(key => KNOWN_KEYS.includes(normalizeKey(key)));
+            if (!known) break;
+            return {
+                fields: toEpisodeFields(raw),
+                body: lines.slice(i + 1).join('\n').trim()
+            };
+        }
+
+        if (line.length === 0) continue;
+
+        const item = line.match(FRONT_MATTER_ITEM);
+        if (item && currentKey !== null) {
+            const existing = raw[currentKey];
+            const list = Array.isArray(existing) ? existing : (existing ? [existing] : []);
+            raw[currentKey] = [...list, unquote(item[1].trim())];
+            continue;
+        }
+
+        const pair = line.match(FRONT_MATTER_KEY);
+        if (!pair) break;
+        currentKey = pair[1];
+        raw[currentKey] = pair[2].trim().length > 0 ? parseScalar(pair[2]) : [];
+    }
+
+    return { fields: null, body: greeting };
+}
+
+// ===== CARD MANIFEST =====
+
+/**
+ * Read the raw `extensions.chubflix` object, which may be stored as an
+ * object or a JSON string. Arrays are returned as `{ episodes: [...] }`.
+ */
+export function readManifestExtension(extensions: unknown): RawFields | null {
+    if (!extensions || typeof extensions !== 'object') return null;
+
+    let manifest: unknown = (extensions as RawFields)[MANIFEST_EXTENSION_KEY];
+    if (typeof manifest === 'string') {
+        try {
+            manifest = JSON.parse(manifest);
+        } catch {
+            return null;
+        }
+    }
+
+    if (Array.isArray(manifest)) return { episodes: manifest };
+    return manifest && typeof manifest === 'object' ? manifest as RawFields : null;
+}
+
+/**
+ * Read the card-level episode list from a character's extensions.
+ *
+ * Accepts either `{ episodes: [...] }` or a bare array under
+ * `extensions.chubflix`.
+ */
+export function readCardManifest(extensions: unknown): EpisodeFields[] | null {
+    const entries = readManifestExtension(extensions)?.episodes;
+    if (!Array.isArray(entries)) return null;
+
+    return entries.map(entry => entry && typeof entry === 'object' ? toEpisodeFields(entry as RawFields) : {});
+}
+
+// ===== HEURISTICS =====
+
+/**
+ * Legacy title guessing from the first line of a greeting.
+ */
+export function extractTitleFromGreeting(greeting: string): string | null {
+    const patterns = [
+        /^\*\*([^*]+)\*\*/,
+        /^#\s+(.+?)(?:\n|$)/,
+        /^"([^"]+)"/,
+        /^Episode\s+\d+:\s*(.+?)(?:\n|$)/i
+    ];
+
+    for (const pattern of patterns) {
+        const match = greeting.trim().match(pattern);
+        if (match) {
+            return match[1].trim();
+        }
+    }
+
+    const firstLine = greeting.trim().split('\n')[0];
+    if (firstLine && firstLine.length <= 50) {
+        return firstLine.replace(/[*#"]/g, '').trim();
+    }
+
+    return null;
+}
+
+// Longest opening kept for the Up Next teaser
+const OPENING_MAX_LENGTH = 220;
+
+/**
+ * The start of a greeting as plain text: the title line and markdown
+ * dropped, cut at a sentence end (or failing that a word) so it stays
+ * short enough for a teaser.
+ */
+export function extractOpening(greeting: string, title: string | null): string | null {
+    const lines = greeting.trim().split('\n');
+    const firstLine = lines[0].replace(/[*_#>"]/g, '').trim().toLowerCase();
+    const isTitleLine = /^\s*(#|\*\*[^*]+\*\*\s*$)/.test(lines[0])
+        || (title !== null && firstLine.endsWith(title.toLowerCase()));
+    if (isTitleLine) {
+        lines.shift();
+    }
+
+    const text = lines.join(' ').replace(/[*_#>]/g, '').replace(/\s+/g, ' ').trim();
+    if (text.length === 0) return null;
+    if (text.length <= OPENING_MAX_LENGTH) return text;
+
+    const cut = text.slice(0, OPENING_MAX_LENGTH);
+    const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '), cut.lastIndexOf('。'));
+    if (sentenceEnd >= OPENING_MAX_LENGTH / 2) {
+        return cut.slice(0, sentenceEnd + 1);
+    }
+    const wordEnd = cut.lastIndexOf(' ');
+    return `${(wordEnd > 0 ? cut.slice(0, wordEnd) : cut).trimEnd()}…`;
+}
+
+export type SeasonHeading = {
+    season: number | null;
+    episode: number | null;
+    /** The greeting with the season heading or prefix removed */
+    rest: string;
+};
+
+const SEASON_ONLY = /^Season\s+(\d+)$/i;
+const SEASON_EPISODE_PREFIXES = [
+    /^S(\d{1,2})\s*E(\d{1,3})\b\s*[:.\-–—|]?\s*/i,
+    /^Season\s+(\d+)\s*[,:\-–—|]?\s*Episode\s+(\d+)\b\s*[:.\-–—|]?\s*/i
+];
+const EPISODE_PREFIX = /^Episode\s+(\d+)\b\s*[:.\-–—|]?\s*/i;
+
+// Separate leading markdown (heading marks, bold, quotes) from the line's text
+function splitLeadingMarkup(line: string): [string, string] {
+    const match = line.match(/^([#>\s]*[*_"]*)(.*)$/) as RegExpMatchArray;
+    return [match[1], match[2]];
+}
+
+/**
+ * Recognize season numbering at the top of a greeting: an `S02E05`
+ * prefix, a `Season 2, Episode 5` prefix, or a `Season 2` heading line
+ * (optionally followed by an `Episode 5:` line).
+ */
+export function extractSeasonHeading(greeting: string): SeasonHeading {
+    const lines = greeting.trim().split('\n');
+    let season: number | null = null;
+    let episode: number | null = null;
+
+    const [, firstText] = splitLeadingMarkup(lines[0]);
+    const seasonOnly = firstText.replace(/[*_"]+$/, '').trim().match(SEASON_ONLY);
+    if (seasonOnly) {
+        season = parseInt(seasonOnly[1], 10);
+        lines.shift();
+        while (lines.length > 0 && lines[0].trim() === '') {
+            lines.shift();
+        }
+    }
+
+    if (lines.length > 0) {
+        const [markup, text] = splitLeadingMarkup(lines[0]);
+        const combined = SEASON_EPISODE_PREFIXES
+            .map(pattern => text.match(pattern))
+            .find(match => match !== null);
+
+        if (combined) {
+            season = parseInt(combined[1], 10);
+            episode = parseInt(combined[2], 10);
+            lines[0] = markup + text.slice(combined[0].length);
+        } else if (season !== null) {
+            const episodeOnly = text.match(EPISODE_PREFIX);
+            if (episodeOnly) {
+                episode = parseInt(episodeOnly[1], 10);
+                lines[0] = markup + text.slice(episodeOnly[0].length);
+            }
+        }
+    }
+
+    return { season, episode, rest: lines.join('\n') };
+}
+
+// ===== EPISODE LIST =====
+
+/**
+ * Build the episode list for a set of greetings (first_mes followed by
+ * the alternate greetings) and the character's extensions.
+ */
+export function buildEpisodes(greetings: string[], extensions: unknown): Episode[] {
+    const manifest = readCardManifest(extensions);
+
+    return greetings.map((greeting, index) => {
+        const { fields: frontMatter, body } = parseFrontMatter(greeting);
+        const fromCard = manifest?.[index];
+        const merged: EpisodeFields = { ...frontMatter, ...fromCard };
+        const heading = extractSeasonHeading(body);
+
+        let source: EpisodeSource = 'heuristic';
+        let title = merged.title;
+        if (fromCard?.title !== undefined) {
+            source = 'manifest';
+        } else if (frontMatter?.title !== undefined) {
+            source = 'frontmatter';
+        } else {
+            title = extractTitleFromGreeting(heading.rest) ?? undefined;
+        }
+
+        return {
+            id: merged.id ?? String(index + 1),
+            index,
+            title: title || null,
+            synopsis: merged.synopsis ?? null,
+            tags: merged.tags ?? [],
+            season: merged.season ?? heading.season,
+            episodeNumber: merged.episodeNumber ?? heading.episode,
+            next: merged.next ?? [],
+            contentWarnings: merged.contentWarnings ?? [],
+            unlock: merged.unlock ?? null,
+            contextTemplate: merged.contextTemplate ?? null,
+            lore: merged.lore ?? null,
+            opening: extractOpening(heading.rest, title || null),
+            source
+        };
+    });
+}
@@ -0,0 +1,73 @@
+/**
+ * Chubflix Playthroughs
+ *
+ * Each run through a series from its first episode is a playthrough. A
+ * playthrough is completed once it reaches an ending; rewatching starts a
+ * new one and keeps the earlier ones, with the path each of them took.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export type Playthrough = {
+    /** Null for progress saved before playthroughs were kept */
+    startedAt: number | null;
+    endedAt: number | null;
+    completed: boolean;
+    /** Episode indices in the order watched */
+    path: number[];
+};
+
+// ===== PLAYTHROUGHS =====
+
+export function startPlaythrough(now: number): Playthrough {
+    return { startedAt: now, endedAt: null, completed: false, path: [0] };
+}
+
+/**
+ * Read saved playthroughs, converting the single `completed` flag kept
+ * by older saves into one playthrough.
+ */
+export function restorePlaythroughs(saved: { playthroughs?: Playthrough[]; completed?: boolean; path?: number[] } | undefined, now: number): Playthrough[] {
+    if (saved?.playthroughs && saved.playthroughs.length > 0) {
+        return saved.playthroughs;
+    }
+    if (saved?.completed !== undefined) {
+        return [{ startedAt: null, endedAt: null, completed: saved.completed, path: saved.path ?? [0] }];
+    }
+    return [startPlaythrough(now)];
+}
+
+export function currentPlaythrough(playthroughs: Playthrough[]): Playthrough {
+    return playthroughs[playthroughs.length - 1];
+}
+
+// The list with the current playthrough replaced
+function updateCurrent(playthroughs: Playthrough[], change: Partial<Playthrough>): Playthrough[] {
+    if (playthroughs.length === 0) return playthroughs;
+    return [...playthroughs.slice(0, -1), { ...currentPlaythrough(playthroughs), ...change }];
+}
+
+/**
+ * Keep the current playthrough's path in step with the series' path.
+ */
+export function trackPath(playthroughs: Playthrough[], path: number[]): Playthrough[] {
+    return updateCurrent(playthroughs, { path });
+}
+
+/**
+ * Mark the current playthrough completed. A playthrough is completed
+ * once; going back and finishing another ending doesn't change its end.
+ */
+export function completePlaythrough(playthroughs: Playthrough[], now: number): Playthrough[] {
+    if (currentPlaythrough(playthroughs).completed) return playthroughs;
+    return updateCurrent(playthroughs, { completed: true, endedAt: now });
+}
+
+/**
+ * Close the current playthrough and start a new one from the first
+ * episode.
+ */
+export function restartPlaythrough(playthroughs: Playthrough[], now: number): Playthrough[] {
+    const closed = updateCurrent(playthroughs, { endedAt: currentPlaythrough(playthroughs).endedAt ?? now });
+    return [...closed, startPlaythrough(now)];
+}
@@ -0,0 +1,133 @@
+/**
+ * Chubflix Episode Recaps
+ *
+ * Builds short extractive recaps ("Previously on...") from the bot
+ * messages seen during an episode. No model call is involved: sentences
+ * are scored by how many of the episode's recurring words they contain,
+ * and the best few are kept in their original order.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export type EpisodeRecap = {
+    text: string;
+    /** True once the user has edited the recap; edited recaps are never regenerated */
+    edited: boolean;
+    updatedAt: number;
+};
+
+export type RecapEntry = {
+    title: string;
+    text: string;
+};
+
+// ===== CONSTANTS =====
+
+const DEFAULT_RECAP_SENTENCES = 3;
+const MIN_SENTENCE_WORDS = 4;
+const MAX_SENTENCE_LENGTH = 240;
+// Most bot messages kept per episode to build its recap from
+const MAX_TRANSCRIPT_MESSAGES = 40;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'yours', 'all', 'any', 'can', 'her', 'hers',
+    'was', 'one', 'our', 'out', 'his', 'him', 'she', 'they', 'them', 'their', 'this', 'that', 'these',
+    'those', 'with', 'from', 'have', 'has', 'had', 'were', 'been', 'being', 'into', 'onto', 'then',
+    'than', 'there', 'here', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'how',
+    'just', 'about', 'over', 'under', 'again', 'very', 'too', 'some', 'more', 'most', 'such', 'only',
+    'own', 'same', 'so', 'its', 'it\'s', 'would', 'could', 'should', 'will', 'shall', 'might', 'must',
+    'did', 'does', 'doing', 'like', 'back', 'down', 'off', 'each', 'few', 'other', 'because', 'through',
+    'before', 'after', 'above', 'below', 'between', 'against', 'during', 'without', 'within', 'also',
+    'i\'m', 'you\'re', 'don\'t', 'can\'t', 'yourself', 'herself', 'himself', 'itself', 'myself'
+]);
+
+// ===== HELPERS =====
+
+// Strip roleplay formatting (asterisk actions, markdown emphasis, headings)
+function cleanText(text: string): string {
+    return text
+        .replace(/[*_#~`]+/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function contentWords(sentence: string): string[] {
+    return (sentence.toLowerCase().match(/[a-z][a-z']+/g) || [])
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Split text into sentences, keeping closing quotes with their sentence.
+ */
+export function splitSentences(text: string): string[] {
+    const cleaned = cleanText(text);
+    if (cleaned.length === 0) return [];
+    const matches = cleaned.match(/[^.!?…]+(?:[.!?…]+["'”’)]*|$)/g) || [];
+    return matches.map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+}
+
+// ===== RECAP BUILDING =====
+
+/**
+ * Build an extractive recap of an episode from its bot messages.
+ * Returns an empty string when there's nothing worth summarizing.
+ */
+export function buildRecap(messages: string[], maxSentences: number = DEFAULT_RECAP_SENTENCES): string {
+    const sentences = messages
+        .flatMap(splitSentences)
+        .filter(sentence => sentence.length <= MAX_SENTENCE_LENGTH && sentence.split(' ').length >= MIN_SENTENCE_WORDS);
+    if (sentences.length === 0) return '';
+
+    const frequency = new Map<string, number>();
+    sentences.forEach(sentence => {
+        new Set(contentWords(sentence)).forEach(word => {
+            frequency.set(word, (frequency.get(word) || 0) + 1);
+        });
+    });
+
+    const scored = sentences.map((sentence, position) => {
+        const words = contentWords(sentence);
+        const total = words.reduce((sum, word) => sum + (frequency.get(word) || 0), 0);
+        return {
+            sentence,
+            position,
+            score: words.length > 0 ? total / Math.sqrt(words.length) : 0
+        };
+    });
+
+    return scored
+        .sort((a, b) => b.score - a.score || a.position - b.position)
+        .slice(0, maxSentences)
+        .sort((a, b) => a.position - b.position)
+        .map(entry => entry.sentence)
+        .join(' ');
+}
+
+/**
+ * Add a bot message to an episode's transcript. A swipe or reroll
+ * replaces the reply it stands in for instead of adding to it.
+ */
+export function recordTranscript(transcript: string[], text: string, replaceLast: boolean): string[] {
+    const kept = replaceLast ? transcript.slice(0, -1) : transcript;
+    return [...kept, text].slice(-MAX_TRANSCRIPT_MESSAGES);
+}
+
+/**
+ * An episode's transcript as it stood at an earlier message: `total`
+ * replies have been recorded in the episode, `count` of them by that
+ * message. The replies after it are dropped.
+ */
+export function rewindTranscript(transcript: string[], total: number, count: number): string[] {
+    const later = Math.max(0, total - count);
+    return transcript.slice(0, Math.max(0, transcript.length - later));
+}
+
+/**
+ * Format the "Previously on..." block injected at the start of an episode,
+ * under an already-localized heading.
+ */
+export function formatPreviouslyOn(heading: string, entries: RecapEntry[]): string | null {
+    if (entries.length === 0) return null;
+    const lines = entries.map(entry => `${entry.title}: ${entry.text}`);
+    return `[${heading}\n${lines.join('\n')}]`;
+}
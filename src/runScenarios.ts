@@ -0,0 +1,111 @@
+/**
+ * Headless scenario runner
+ *
+ * Runs scenario files against the stage in Node and reports every step
+ * whose response or rendered panel doesn't match its expectations.
+ *
+ *     yarn scenarios [path/to/scenario.json ...]
+ *
+ * Without paths it runs every `.json` file directly in `scenarios/`; init
+ * data they share lives in `scenarios/init/`, which isn't run. A file
+ * holds one scenario or an array of them. A scenario's `init` can
+ * be the init data itself or the path of a JSON file holding it, relative
+ * to the scenario file. Exits with status 1 when any scenario fails.
+ */
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { Scenario, ScenarioResult, formatMismatch, runScenario } from './scenario';
+
+type ScenarioFile = Omit<Scenario, 'init'> & { init: Scenario['init'] | string };
+
+// Where the scenarios run by default live, relative to the working directory
+const SCENARIO_DIR = 'scenarios';
+
+function readJson(path: string): unknown {
+    return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function defaultPaths(): string[] {
+    return readdirSync(SCENARIO_DIR)
+        .filter(name => name.endsWith('.json'))
+        .sort()
+        .map(name => join(SCENARIO_DIR, name));
+}
+
+function loadScenarios(path: string): Scenario[] {
+    const contents = readJson(path) as ScenarioFile | ScenarioFile[];
+    const files = Array.isArray(contents) ? contents : [contents];
+
+    return files.map(file => ({
+        ...file,
+        init: typeof file.init === 'string'
+            ? readJson(resolve(dirname(path), file.init)) as Scenario['init']
+            : file.init
+    }));
+}
+
+/**
+ * Run a scenario, keeping the stage's console mirror of debug events out
+ * of the report. The stage only mirrors them while its debug panel is
+ * shown, so other scenarios' console output still gets through.
+ */
+async function runQuietly(scenario: Scenario): Promise<ScenarioResult> {
+    if (!scenario.config?.showDebug && !scenario.init.config?.showDebug) {
+        return await runScenario(scenario);
+    }
+
+    const log = console.log;
+    console.log = () => {};
+    try {
+        return await runScenario(scenario);
+    } finally {
+        console.log = log;
+    }
+}
+
+function report(result: ScenarioResult): string[] {
+    const lines = [`${result.passed ? '✓' : '✗'} ${result.name}`];
+
+    result.steps.forEach(step => {
+        if (step.error === null && step.mismatches.length === 0) return;
+
+        lines.push(`    step ${step.index + 1} (${step.label})`);
+        if (step.error !== null) {
+            lines.push(`        threw: ${step.error}`);
+        }
+        step.mismatches.forEach(mismatch => lines.push(`        ${formatMismatch(mismatch)}`));
+    });
+
+    return lines;
+}
+
+async function main(args: string[]): Promise<number> {
+    const paths = args.length > 0 ? args : defaultPaths();
+    if (paths.length === 0) {
+        process.stderr.write(`No scenario files in ${SCENARIO_DIR}/\n`);
+        return 1;
+    }
+
+    let failed = 0;
+    let total = 0;
+    for (const path of paths) {
+        for (const scenario of loadScenarios(path)) {
+            const result = await runQuietly(scenario);
+            total++;
+            if (!result.passed) failed++;
+            process.stdout.write(report(result).join('\n') + '\n');
+        }
+    }
+
+    process.stdout.write(`\n${total - failed} of ${total} scenarios passed\n`);
+    return failed > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+    status => process.exit(status),
+    error => {
+        process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+        process.exit(1);
+    }
+);
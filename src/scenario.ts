@@ -0,0 +1,217 @@
+/**
+ * Chubflix Scenarios
+ *
+ * A scenario scripts a whole session against a fresh stage: construct it
+ * from init data, load it, then send user and bot messages, swipe to
+ * earlier messages and click the panel. After each step the stage's
+ * response and rendered panel are checked against the step's
+ * expectations, and every mismatch is reported with the path of the
+ * field, the expected value and the actual one.
+ *
+ * Expected objects match partially (only the listed fields are checked);
+ * arrays and plain values must match exactly. A string can also be
+ * matched with `{ "contains": "..." }`, `{ "excludes": "..." }` or
+ * `{ "matches": "regex" }`.
+ */
+
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Message } from "@chub-ai/stages-ts";
+import { ConfigType, DEFAULT_CONFIG, MessageStateType, Stage } from './Stage';
+import { StageAction, exportTrace } from './trace';
+
+// ===== TYPE DEFINITIONS =====
+
+export type ScenarioExpectation = {
+    systemMessage?: unknown;
+    stateMessage?: unknown;
+    modifiedMessage?: unknown;
+    chatState?: unknown;
+    messageState?: unknown;
+    /** 1-based number of the episode the panel shows */
+    episode?: number;
+    /** Text the rendered panel must contain */
+    text?: string[];
+    /** The session's trace as exported without redaction; needs `showDebug` */
+    trace?: unknown;
+};
+
+export type ScenarioStep = (
+    | { user: string }
+    | { bot: string }
+    /** Message state of the message swiped or jumped to */
+    | { swipe: MessageStateType }
+    | { action: StageAction }
+) & { expect?: ScenarioExpectation };
+
+/** The data the stage is constructed with */
+type StageInit = ConstructorParameters<typeof Stage>[0];
+
+export type Scenario = {
+    name: string;
+    /** The data the stage is constructed with; the environment is always `testing` */
+    init: Omit<StageInit, 'environment'>;
+    /** Config merged over the init data's config */
+    config?: Partial<ConfigType>;
+    steps: ScenarioStep[];
+};
+
+export type Mismatch = {
+    path: string;
+    expected: unknown;
+    actual: unknown;
+};
+
+export type StepOutcome = {
+    index: number;
+    label: string;
+    mismatches: Mismatch[];
+    /** Set when the stage threw */
+    error: string | null;
+};
+
+export type ScenarioResult = {
+    name: string;
+    passed: boolean;
+    steps: StepOutcome[];
+};
+
+// What a step produced, for checking against its expectations
+type Observed = Record<string, unknown> & {
+    episode: number | null;
+    text: string;
+    trace: string | null;
+};
+
+// ===== MATCHING =====
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function matchValue(expected: unknown, actual: unknown, path: string): Mismatch[] {
+    if (isPlainObject(expected) && typeof expected.contains === 'string' && Object.keys(expected).length === 1) {
+        return typeof actual === 'string' && actual.includes(expected.contains)
+            ? []
+            : [{ path, expected: `containing ${JSON.stringify(expected.contains)}`, actual }];
+    }
+    if (isPlainObject(expected) && typeof expected.excludes === 'string' && Object.keys(expected).length === 1) {
+        if (typeof actual !== 'string') {
+            return [{ path, expected: `not containing ${JSON.stringify(expected.excludes)}`, actual }];
+        }
+        // Only the text around the match is reported, as the string may be long
+        const found = actual.indexOf(expected.excludes);
+        return found < 0
+            ? []
+            : [{ path, expected: `not containing ${JSON.stringify(expected.excludes)}`, actual: `…${actual.slice(Math.max(0, found - 40), found + expected.excludes.length + 40)}…` }];
+    }
+    if (isPlainObject(expected) && typeof expected.matches === 'string' && Object.keys(expected).length === 1) {
+        return typeof actual === 'string' && new RegExp(expected.matches).test(actual)
+            ? []
+            : [{ path, expected: `matching /${expected.matches}/`, actual }];
+    }
+    if (isPlainObject(expected)) {
+        if (!isPlainObject(actual)) {
+            return [{ path, expected, actual }];
+        }
+        return Object.keys(expected).flatMap(key => matchValue(expected[key], actual[key], `${path}.${key}`));
+    }
+    return JSON.stringify(expected) === JSON.stringify(actual) ? [] : [{ path, expected, actual }];
+}
+
+function checkExpectations(expectation: ScenarioExpectation, observed: Observed): Mismatch[] {
+    const mismatches: Mismatch[] = [];
+
+    Object.entries(expectation).forEach(([key, expected]) => {
+        if (key === 'text') {
+            (expected as string[]).forEach(text => {
+                if (!observed.text.includes(text)) {
+                    mismatches.push({ path: 'text', expected: `containing ${JSON.stringify(text)}`, actual: observed.text });
+                }
+            });
+        } else if (!(key in observed)) {
+            mismatches.push({ path: key, expected, actual: '(not available for this step)' });
+        } else {
+            mismatches.push(...matchValue(expected, observed[key], key));
+        }
+    });
+
+    return mismatches;
+}
+
+export function formatMismatch(mismatch: Mismatch): string {
+    return `${mismatch.path}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`;
+}
+
+// ===== RUNNING =====
+
+function message(content: string, isBot: boolean, index: number): Message {
+    return {
+        content,
+        anonymizedId: isBot ? 'scenario-bot' : 'scenario-user',
+        isBot,
+        promptForId: null,
+        identity: `scenario-${index}`,
+        isMain: true
+    };
+}
+
+function stepLabel(step: ScenarioStep): string {
+    if ('user' in step) return `user: ${step.user}`;
+    if ('bot' in step) return `bot: ${step.bot}`;
+    if ('swipe' in step) return `swipe: ${JSON.stringify(step.swipe)}`;
+    return `action: ${JSON.stringify(step.action)}`;
+}
+
+function renderPanel(stage: Stage): Pick<Observed, 'episode' | 'text'> {
+    const markup = renderToStaticMarkup(stage.render());
+    const episode = markup.match(/data-episode="(\d+)"/);
+    return {
+        episode: episode ? Number(episode[1]) : null,
+        text: markup.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
+    };
+}
+
+async function runStep(stage: Stage, step: ScenarioStep, index: number): Promise<Record<string, unknown>> {
+    if ('user' in step) {
+        return await stage.beforePrompt(message(step.user, false, index));
+    }
+    if ('bot' in step) {
+        return await stage.afterResponse(message(step.bot, true, index));
+    }
+    if ('swipe' in step) {
+        await stage.setState(step.swipe);
+        return {};
+    }
+    return { chatState: await stage.performAction(step.action) };
+}
+
+export async function runScenario(scenario: Scenario): Promise<ScenarioResult> {
+    // Outside development the debug panel stays out of the rendered text
+    const init: StageInit = {
+        ...scenario.init,
+        environment: 'testing',
+        config: { ...DEFAULT_CONFIG, ...scenario.init.config, ...scenario.config }
+    };
+    const stage = new Stage(init);
+    await stage.load();
+
+    const steps: StepOutcome[] = [];
+    for (const [index, step] of scenario.steps.entries()) {
+        const label = stepLabel(step);
+        try {
+            const response = await runStep(stage, step, index);
+            const trace = stage.getTrace();
+            const observed: Observed = { ...response, ...renderPanel(stage), trace: trace ? exportTrace(trace, false) : null };
+            steps.push({ index, label, mismatches: checkExpectations(step.expect || {}, observed), error: null });
+        } catch (error) {
+            steps.push({ index, label, mismatches: [], error: error instanceof Error ? error.message : String(error) });
+            break;
+        }
+    }
+
+    return {
+        name: scenario.name,
+        passed: steps.every(step => step.error === null && step.mismatches.length === 0),
+        steps
+    };
+}
@@ -0,0 +1,88 @@
+/**
+ * Chubflix Seasons
+ *
+ * Groups episodes into seasons. Seasons come from the manifest (`season`,
+ * `episode`) or from `S02E05` / `Season 2` headings in the greetings. An
+ * episode without a season belongs to the same season as the episode
+ * before it, so a card only needs to mark the first episode of each season.
+ *
+ * A card with no season information at all stays a single flat series.
+ */
+
+import { Episode } from './manifest';
+import { EpisodeGraph, longestRoute } from './episodeGraph';
+
+// ===== TYPE DEFINITIONS =====
+
+export type SeasonProgress = {
+    season: number;
+    /** 1-based position of the current episode among this season's episodes on the path */
+    position: number;
+    /** Episodes of this season on the path so far plus those on the longest remaining route */
+    total: number;
+};
+
+// ===== GROUPING =====
+
+export function hasSeasons(episodes: Episode[]): boolean {
+    return episodes.some(episode => episode.season !== null);
+}
+
+/**
+ * Fill in the season and per-season episode number of every episode.
+ * Episodes without an explicit number continue from the highest number
+ * seen so far in their season.
+ */
+export function assignSeasons(episodes: Episode[]): Episode[] {
+    if (!hasSeasons(episodes)) return episodes;
+
+    let season = 1;
+    const highestNumber = new Map<number, number>();
+
+    return episodes.map(episode => {
+        season = episode.season ?? season;
+        const episodeNumber = episode.episodeNumber ?? (highestNumber.get(season) ?? 0) + 1;
+        highestNumber.set(season, Math.max(highestNumber.get(season) ?? 0, episodeNumber));
+        return { ...episode, season, episodeNumber };
+    });
+}
+
+// ===== PROGRESS =====
+
+/**
+ * Progress through the current episode's season, measured along the path
+ * like overall progress. Null when the series has no seasons.
+ */
+export function seasonProgress(episodes: Episode[], graph: EpisodeGraph, path: number[]): SeasonProgress | null {
+    const current = path[path.length - 1] ?? 0;
+    const season = episodes[current]?.season ?? null;
+    if (season === null) return null;
+
+    const inSeason = (index: number) => episodes[index]?.season === season;
+    const position = path.filter(inSeason).length;
+    const remaining = longestRoute(graph, current, new Set(path)).filter(inSeason).length;
+
+    return { season, position, total: position + remaining };
+}
+
+/**
+ * Seasons finished along the path: every season the path has moved on
+ * from, plus the current one when the current episode is an ending.
+ */
+export function completedSeasons(episodes: Episode[], graph: EpisodeGraph, path: number[]): number[] {
+    const completed = new Set<number>();
+
+    path.forEach((index, position) => {
+        const season = episodes[index]?.season ?? null;
+        const nextIndex = path[position + 1];
+        if (season === null) return;
+
+        if (nextIndex === undefined) {
+            if ((graph[index] || []).length === 0) completed.add(season);
+        } else if (episodes[nextIndex]?.season !== season) {
+            completed.add(season);
+        }
+    });
+
+    return [...completed].sort((a, b) => a - b);
+}
@@ -0,0 +1,106 @@
+/**
+ * Chubflix Keyboard Shortcuts
+ *
+ * Shortcuts are written as a key name as reported by the browser
+ * (`ArrowRight`, `e`, `PageDown`), optionally preceded by modifiers:
+ * `Alt+ArrowRight`, `Ctrl+Shift+e`. An empty shortcut is disabled.
+ * Shortcuts never fire while the user is typing in a text field.
+ */
+
+import { useEffect, useRef } from 'react';
+
+// ===== TYPE DEFINITIONS =====
+
+export type Shortcut = {
+    key: string;
+    ctrl: boolean;
+    alt: boolean;
+    shift: boolean;
+    meta: boolean;
+};
+
+// ===== PARSING =====
+
+export function parseShortcut(setting: string): Shortcut | null {
+    const parts = setting.split('+').map(part => part.trim()).filter(part => part.length > 0);
+    const key = parts.pop();
+    if (!key) return null;
+
+    const modifiers = parts.map(part => part.toLowerCase());
+    return {
+        key,
+        ctrl: modifiers.includes('ctrl') || modifiers.includes('control'),
+        alt: modifiers.includes('alt') || modifiers.includes('option'),
+        shift: modifiers.includes('shift'),
+        meta: modifiers.includes('meta') || modifiers.includes('cmd')
+    };
+}
+
+/**
+ * The shortcut in the form of the `aria-keyshortcuts` attribute, or
+ * undefined when disabled.
+ */
+export function ariaShortcut(setting: string): string | undefined {
+    const shortcut = parseShortcut(setting);
+    if (!shortcut) return undefined;
+    const modifiers = [
+        shortcut.ctrl && 'Control',
+        shortcut.alt && 'Alt',
+        shortcut.shift && 'Shift',
+        shortcut.meta && 'Meta'
+    ].filter(Boolean);
+    return [...modifiers, shortcut.key].join('+');
+}
+
+// ===== MATCHING =====
+
+function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export function matchesShortcut(event: KeyboardEvent, shortcut: Shortcut): boolean {
+    const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+    const expected = shortcut.key.length === 1 ? shortcut.key.toLowerCase() : shortcut.key;
+    // Symbols such as "?" need Shift on most layouts, so it isn't compared for them
+    const symbol = expected.length === 1 && !/[a-z0-9]/.test(expected);
+    return key === expected
+        && event.ctrlKey === shortcut.ctrl
+        && event.altKey === shortcut.alt
+        && event.metaKey === shortcut.meta
+        && (symbol || event.shiftKey === shortcut.shift);
+}
+
+// ===== HOOK =====
+
+export type ShortcutBinding = {
+    /** Shortcut setting; empty disables the binding */
+    shortcut: string;
+    onPress: () => void;
+};
+
+/**
+ * Call a binding's handler when its shortcut is pressed anywhere on the
+ * page.
+ */
+export function useShortcuts(bindings: ShortcutBinding[]): void {
+    const bindingsRef = useRef(bindings);
+    bindingsRef.current = bindings;
+    const settings = bindings.map(binding => binding.shortcut).join('\n');
+
+    useEffect(() => {
+        const shortcuts = settings.split('\n').map(parseShortcut);
+        if (shortcuts.every(shortcut => shortcut === null)) return;
+
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.defaultPrevented || event.repeat || isEditableTarget(event.target)) return;
+            const index = shortcuts.findIndex(shortcut => shortcut !== null && matchesShortcut(event, shortcut));
+            if (index >= 0) {
+                event.preventDefault();
+                bindingsRef.current[index]?.onPress();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [settings]);
+}
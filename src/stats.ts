@@ -0,0 +1,120 @@
+/**
+ * Chubflix Viewing Statistics
+ *
+ * Counts, per episode, the time spent watching it, the messages written
+ * on both sides, the swipes and rerolls seen, and when it was first and
+ * last visited. Time is measured between messages and navigation, and a
+ * gap longer than the idle limit only counts up to that limit, so a tab
+ * left open overnight doesn't inflate the watch time.
+ */
+
+import { Translate } from './i18n';
+
+// ===== TYPE DEFINITIONS =====
+
+export type EpisodeStats = {
+    /** Milliseconds spent in the episode */
+    timeSpent: number;
+    userMessages: number;
+    botMessages: number;
+    /** Total length of the bot's replies, for the average */
+    botCharacters: number;
+    swipes: number;
+    visits: number;
+    firstVisit: number | null;
+    lastVisit: number | null;
+};
+
+/** Stats of one series, keyed by episode index */
+export type ViewingStats = Record<number, EpisodeStats>;
+
+// ===== CONSTANTS =====
+
+export const IDLE_LIMIT_MS = 10 * 60 * 1000;
+
+// ===== RECORDING =====
+
+export function emptyEpisodeStats(): EpisodeStats {
+    return {
+        timeSpent: 0,
+        userMessages: 0,
+        botMessages: 0,
+        botCharacters: 0,
+        swipes: 0,
+        visits: 0,
+        firstVisit: null,
+        lastVisit: null
+    };
+}
+
+function update(stats: ViewingStats, index: number, change: (episode: EpisodeStats) => Partial<EpisodeStats>): ViewingStats {
+    const episode = stats[index] ?? emptyEpisodeStats();
+    return { ...stats, [index]: { ...episode, ...change(episode) } };
+}
+
+export function recordVisit(stats: ViewingStats, index: number, now: number): ViewingStats {
+    return update(stats, index, episode => ({
+        visits: episode.visits + 1,
+        firstVisit: episode.firstVisit ?? now,
+        lastVisit: now
+    }));
+}
+
+/**
+ * Add the time since the last activity to an episode, up to the idle
+ * limit.
+ */
+export function recordTime(stats: ViewingStats, index: number, since: number, now: number): ViewingStats {
+    const elapsed = Math.min(Math.max(now - since, 0), IDLE_LIMIT_MS);
+    if (elapsed === 0) return stats;
+    return update(stats, index, episode => ({ timeSpent: episode.timeSpent + elapsed, lastVisit: now }));
+}
+
+export function recordUserMessage(stats: ViewingStats, index: number): ViewingStats {
+    return update(stats, index, episode => ({ userMessages: episode.userMessages + 1 }));
+}
+
+export function recordBotMessage(stats: ViewingStats, index: number, length: number): ViewingStats {
+    return update(stats, index, episode => ({
+        botMessages: episode.botMessages + 1,
+        botCharacters: episode.botCharacters + length
+    }));
+}
+
+export function recordSwipe(stats: ViewingStats, index: number): ViewingStats {
+    return update(stats, index, episode => ({ swipes: episode.swipes + 1 }));
+}
+
+// ===== SUMMARIES =====
+
+export function averageReplyLength(episode: EpisodeStats): number {
+    return episode.botMessages > 0 ? Math.round(episode.botCharacters / episode.botMessages) : 0;
+}
+
+export function totalWatchTime(stats: ViewingStats): number {
+    return Object.values(stats).reduce((total, episode) => total + episode.timeSpent, 0);
+}
+
+/**
+ * The episode visited most often, or null when none has been visited
+ * more than once. Ties go to the earlier episode.
+ */
+export function mostRevisited(stats: ViewingStats): number | null {
+    let best: number | null = null;
+    Object.keys(stats).map(Number).sort((a, b) => a - b).forEach(index => {
+        if (stats[index].visits > 1 && (best === null || stats[index].visits > stats[best].visits)) {
+            best = index;
+        }
+    });
+    return best;
+}
+
+function splitDuration(ms: number): { hours: number; minutes: number } {
+    const totalMinutes = Math.floor(ms / 60000);
+    return { hours: Math.floor(totalMinutes / 60), minutes: totalMinutes % 60 };
+}
+
+export function formatDuration(ms: number, translate: Translate<'statsHours' | 'statsMinutes'>): string {
+    const { hours, minutes } = splitDuration(ms);
+    return hours > 0 ? translate('statsHours', { hours, minutes }) : translate('statsMinutes', { minutes });
+}
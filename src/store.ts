@@ -0,0 +1,49 @@
+/**
+ * Chubflix Store
+ *
+ * A minimal observable value. The stage keeps what its UI shows in
+ * stores and replaces their state whenever it changes; the function
+ * components that render the UI subscribe with `useStore` and re-render
+ * right away, whichever runner hosts the stage.
+ */
+
+import { useSyncExternalStore } from 'react';
+
+// ===== TYPE DEFINITIONS =====
+
+export type Store<T> = {
+    getState: () => T;
+    /** Replace the state and notify subscribers */
+    setState: (state: T) => void;
+    /** Returns a function that unsubscribes */
+    subscribe: (listener: () => void) => () => void;
+};
+
+// ===== STORES =====
+
+export function createStore<T>(initial: T): Store<T> {
+    let state = initial;
+    const listeners = new Set<() => void>();
+
+    return {
+        getState: () => state,
+        setState: (next: T) => {
+            state = next;
+            listeners.forEach(listener => listener());
+        },
+        subscribe: (listener: () => void) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        }
+    };
+}
+
+/**
+ * The store's current state, re-rendering the component whenever it is
+ * replaced.
+ */
+export function useStore<T>(store: Store<T>): T {
+    return useSyncExternalStore(store.subscribe, store.getState, store.getState);
+}
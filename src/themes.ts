@@ -0,0 +1,135 @@
+/**
+ * Chubflix Stage Themes
+ *
+ * Named token sets for the stage UI. The user picks a base theme in the
+ * stage config; the character card may then override the accent color or
+ * any other token through `extensions.chubflix.theme`:
+ *
+ *   { "theme": { "accent": "#1db954" } }
+ *   { "theme": { "palette": { "accent": "#1db954", "background": "#101820" } } }
+ */
+
+import { CSSProperties } from 'react';
+import { readManifestExtension } from './manifest';
+
+// ===== TYPE DEFINITIONS =====
+
+export type ThemeName = 'chubflix' | 'dark' | 'light';
+
+export type ThemeTokens = {
+    /** Panel background */
+    background: string;
+    /** Inset areas such as the debug log */
+    surface: string;
+    text: string;
+    textMuted: string;
+    /** Primary buttons and the progress fill */
+    accent: string;
+    /** Text drawn on top of the accent color */
+    accentText: string;
+    /** Disabled buttons and secondary controls */
+    muted: string;
+    border: string;
+    progressTrack: string;
+    fontFamily: string;
+    radius: string;
+};
+
+type CardTheme = Partial<ThemeTokens>;
+
+// ===== THEMES =====
+
+const SYSTEM_FONT = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+export const THEMES: Record<ThemeName, ThemeTokens> = {
+    chubflix: {
+        background: '#141414',
+        surface: '#0a0a0a',
+        text: '#ffffff',
+        textMuted: '#888888',
+        accent: '#e50914',
+        accentText: '#ffffff',
+        muted: '#444444',
+        border: '#333333',
+        progressTrack: 'rgba(255,255,255,0.2)',
+        fontFamily: SYSTEM_FONT,
+        radius: '4px'
+    },
+    dark: {
+        background: '#1e2230',
+        surface: '#161925',
+        text: '#e2e8f0',
+        textMuted: '#94a3b8',
+        accent: '#6366f1',
+        accentText: '#ffffff',
+        muted: '#334155',
+        border: '#2d3348',
+        progressTrack: 'rgba(148,163,184,0.25)',
+        fontFamily: SYSTEM_FONT,
+        radius: '8px'
+    },
+    light: {
+        background: '#f8fafc',
+        surface: '#eef2f7',
+        text: '#0f172a',
+        textMuted: '#64748b',
+        accent: '#2563eb',
+        accentText: '#ffffff',
+        muted: '#cbd5e1',
+        border: '#d9e0ea',
+        progressTrack: 'rgba(15,23,42,0.12)',
+        fontFamily: SYSTEM_FONT,
+        radius: '8px'
+    }
+};
+
+const TOKEN_KEYS = Object.keys(THEMES.chubflix) as (keyof ThemeTokens)[];
+
+// Kept out of sight but still read by screen readers
+export const VISUALLY_HIDDEN: CSSProperties = {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    margin: '-1px',
+    padding: 0,
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0
+};
+
+// ===== CARD OVERRIDES =====
+
+function isThemeName(value: unknown): value is ThemeName {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(THEMES, value);
+}
+
+/**
+ * Read a theme override from the character's extensions, if any.
+ */
+export function readCardTheme(extensions: unknown): CardTheme | null {
+    const raw = readManifestExtension(extensions)?.theme;
+    if (!raw || typeof raw !== 'object') return null;
+
+    const source = raw as Record<string, unknown>;
+    const paletteSource = (source.palette && typeof source.palette === 'object')
+        ? source.palette as Record<string, unknown>
+        : {};
+    const palette: Partial<ThemeTokens> = {};
+    TOKEN_KEYS.forEach(key => {
+        const value = paletteSource[key] ?? source[key];
+        if (typeof value === 'string' && value.trim().length > 0) {
+            palette[key] = value.trim();
+        }
+    });
+
+    return palette;
+}
+
+/**
+ * Resolve the tokens to render with: the configured theme with the
+ * card's palette on top.
+ */
+export function resolveTheme(name: string, cardTheme: CardTheme | null): ThemeTokens {
+    return { ...THEMES[isThemeName(name) ? name : 'chubflix'], ...cardTheme };
+}
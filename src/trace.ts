@@ -0,0 +1,199 @@
+/**
+ * Chubflix Lifecycle Traces
+ *
+ * A trace is a recording of one stage session: the data the stage was
+ * constructed with, then every lifecycle call in order with its input and
+ * the stage's response, along with the user's clicks in the panel. Traces are saved as versioned JSON, and replaying
+ * one against a fresh stage shows where its responses now differ from the
+ * recorded ones.
+ */
+
+import { Message } from "@chub-ai/stages-ts";
+import { LedgerKind } from './continuity';
+import { redactData } from './debugLog';
+import type { MessageStateType } from './Stage';
+
+// ===== CONSTANTS =====
+
+export const TRACE_VERSION = 1;
+
+// Fields that depend on the clock, ignored when comparing responses
+const VOLATILE_KEYS = ['startedAt', 'episodeStartedAt', 'updatedAt', 'timestamp', 'timeSpent', 'firstVisit', 'lastVisit', 'endedAt'];
+
+// Steps kept per trace; older ones are dropped so a long session doesn't grow without limit
+export const MAX_TRACE_STEPS = 500;
+
+// Init data fields that identify the user or authorize requests, never recorded
+const CREDENTIAL_KEYS = ['token', 'id', 'userId'];
+
+// ===== TYPE DEFINITIONS =====
+
+/** Something the user did in the stage panel */
+export type StageAction =
+    | { type: 'next'; target?: number }
+    | { type: 'previous' }
+    | { type: 'jump'; index: number }
+    | { type: 'switchTrack'; track: string }
+    | { type: 'editRecap'; index: number; text: string }
+    | { type: 'addLedgerEntry'; kind: LedgerKind; text: string }
+    | { type: 'editLedgerEntry'; id: string; text: string }
+    | { type: 'removeLedgerEntry'; id: string }
+    | { type: 'rewatch' };
+
+export type TraceStep =
+    | { type: 'load'; response: unknown }
+    | { type: 'beforePrompt'; input: Message; response: unknown }
+    | { type: 'afterResponse'; input: Message; response: unknown }
+    | { type: 'setState'; input: MessageStateType }
+    /** Recorded with the chat state the action left behind */
+    | { type: 'action'; input: StageAction; response: unknown };
+
+export type Trace = {
+    version: number;
+    recordedAt: number;
+    /** The data the stage was constructed with */
+    init: unknown;
+    steps: TraceStep[];
+    /** Steps dropped from the start to stay within `MAX_TRACE_STEPS` */
+    dropped?: number;
+};
+
+/** The lifecycle methods a trace drives */
+export type TraceTarget = {
+    load(): Promise<unknown>;
+    beforePrompt(message: Message): Promise<unknown>;
+    afterResponse(message: Message): Promise<unknown>;
+    setState(state: MessageStateType): Promise<void>;
+    performAction(action: StageAction): Promise<unknown>;
+};
+
+export type TraceDifference = {
+    /** Dotted path of the differing field, e.g. `chatState.tracks.0.path` */
+    path: string;
+    recorded: unknown;
+    actual: unknown;
+};
+
+export type StepResult = {
+    index: number;
+    type: TraceStep['type'];
+    differences: TraceDifference[];
+};
+
+// ===== RECORDING =====
+
+// Traces hold plain copies, so later changes to the stage don't leak in
+function snapshot<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function withoutCredentials(init: unknown): unknown {
+    if (init === null || typeof init !== 'object') return init;
+    return Object.fromEntries(Object.entries(init).filter(([key]) => !CREDENTIAL_KEYS.includes(key)));
+}
+
+export function startTrace(init: unknown): Trace {
+    return { version: TRACE_VERSION, recordedAt: Date.now(), init: snapshot(withoutCredentials(init)), steps: [] };
+}
+
+/**
+ * Append a step, dropping the oldest once the trace holds
+ * `MAX_TRACE_STEPS`.
+ */
+export function recordStep(trace: Trace, step: TraceStep): void {
+    trace.steps.push(snapshot(step));
+    const excess = trace.steps.length - MAX_TRACE_STEPS;
+    if (excess > 0) {
+        trace.steps.splice(0, excess);
+        trace.dropped = (trace.dropped ?? 0) + excess;
+    }
+}
+
+/**
+ * The trace as JSON to attach to a bug report, with message and card
+ * text redacted unless `redact` is off. Credentials are left out even
+ * from traces recorded before they were stripped.
+ */
+export function exportTrace(trace: Trace, redact: boolean): string {
+    const exported = { ...trace, init: withoutCredentials(trace.init) };
+    return JSON.stringify(redact ? redactData(exported) : exported, null, 2);
+}
+
+/**
+ * Parse a saved trace, rejecting files that aren't traces or were saved
+ * by a newer version.
+ */
+export function parseTrace(json: string): Trace {
+    const trace = JSON.parse(json) as Partial<Trace>;
+    if (!trace || typeof trace !== 'object' || !Array.isArray(trace.steps) || trace.init === undefined) {
+        throw new Error('Not a Chubflix trace file');
+    }
+    if (typeof trace.version !== 'number' || trace.version > TRACE_VERSION) {
+        throw new Error(`Unsupported trace version: ${trace.version}`);
+    }
+    return trace as Trace;
+}
+
+// ===== REPLAY =====
+
+export function diffValues(recorded: unknown, actual: unknown, path: string = ''): TraceDifference[] {
+    if (recorded === actual) return [];
+
+    const bothObjects = recorded !== null && actual !== null
+        && typeof recorded === 'object' && typeof actual === 'object'
+        && Array.isArray(recorded) === Array.isArray(actual);
+    if (!bothObjects) {
+        return [{ path: path || '(root)', recorded, actual }];
+    }
+
+    const recordedFields = recorded as Record<string, unknown>;
+    const actualFields = actual as Record<string, unknown>;
+    const keys = new Set([...Object.keys(recordedFields), ...Object.keys(actualFields)]);
+    const differences: TraceDifference[] = [];
+    keys.forEach(key => {
+        if (VOLATILE_KEYS.includes(key)) return;
+        differences.push(...diffValues(recordedFields[key], actualFields[key], path ? `${path}.${key}` : key));
+    });
+    return differences;
+}
+
+/**
+ * Run one recorded step against a stage and compare its response with
+ * the recorded one.
+ */
+export async function replayStep(target: TraceTarget, step: TraceStep, index: number): Promise<StepResult> {
+    let actual: unknown;
+    let recorded: unknown;
+
+    switch (step.type) {
+        case 'load':
+            actual = await target.load();
+            recorded = step.response;
+            break;
+        case 'beforePrompt':
+            actual = await target.beforePrompt(step.input);
+            recorded = step.response;
+            break;
+        case 'afterResponse':
+            actual = await target.afterResponse(step.input);
+            recorded = step.response;
+            break;
+        case 'setState':
+            await target.setState(step.input);
+            break;
+        case 'action':
+            actual = await target.performAction(step.input);
+            recorded = step.response;
+            break;
+    }
+
+    return { index, type: step.type, differences: diffValues(snapshot(recorded), snapshot(actual)) };
+}
+
+export async function replayAll(target: TraceTarget, trace: Trace): Promise<StepResult[]> {
+    const results: StepResult[] = [];
+    for (const [index, step] of trace.steps.entries()) {
+        results.push(await replayStep(target, step, index));
+    }
+    return results;
+}
@@ -0,0 +1,84 @@
+/**
+ * Chubflix Episode Tracks
+ *
+ * Every character in the chat whose card has greetings gets its own
+ * series of episodes, called a track. In a group chat the user picks
+ * which character's track is active, or the tracks are merged into one
+ * shared series that plays each character's episodes in turn.
+ */
+
+import { Episode, buildEpisodes } from './manifest';
+import { EpisodeGraph, buildEpisodeGraph } from './episodeGraph';
+import { assignSeasons } from './seasons';
+import { NormalizedCharacter } from './characterCard';
+
+// ===== TYPE DEFINITIONS =====
+
+/** How a group chat's characters share episodes */
+export type GroupMode = 'separate' | 'shared';
+
+export type Track = {
+    /** Character id, or SHARED_TRACK_ID for the merged series */
+    id: string;
+    name: string;
+    episodes: Episode[];
+    graph: EpisodeGraph;
+    /** Name of the character each episode belongs to */
+    owners: string[];
+};
+
+export const SHARED_TRACK_ID = 'shared';
+
+// ===== TRACKS =====
+
+export function buildTrack(source: NormalizedCharacter): Track {
+    const episodes = assignSeasons(buildEpisodes(source.greetings, source.extensions));
+    return {
+        id: source.id,
+        name: source.name,
+        episodes,
+        graph: buildEpisodeGraph(episodes),
+        owners: episodes.map(() => source.name)
+    };
+}
+
+/**
+ * Merge tracks into one series: each track's episodes follow the
+ * previous track's, and its endings lead on to the next track's first
+ * episode. The final track's endings end the series.
+ */
+export function mergeTracks(tracks: Track[]): Track {
+    const episodes: Episode[] = [];
+    const graph: EpisodeGraph = [];
+    const owners: string[] = [];
+
+    tracks.forEach((track, position) => {
+        const offset = episodes.length;
+        const nextStart = offset + track.episodes.length;
+        const isLast = position === tracks.length - 1;
+
+        track.episodes.forEach((episode, index) => {
+            episodes.push({ ...episode, index: offset + index });
+            owners.push(track.owners[index]);
+
+            const successors = track.graph[index].map(successor => successor + offset);
+            graph.push(successors.length === 0 && !isLast ? [nextStart] : successors);
+        });
+    });
+
+    return {
+        id: SHARED_TRACK_ID,
+        name: tracks.map(track => track.name).join(' & '),
+        episodes,
+        graph,
+        owners
+    };
+}
+
+export function buildTracks(sources: NormalizedCharacter[], mode: GroupMode): Track[] {
+    const tracks = sources.map(buildTrack);
+    if (mode === 'shared' && tracks.length > 1) {
+        return [mergeTracks(tracks)];
+    }
+    return tracks;
+}
@@ -0,0 +1,103 @@
+/**
+ * Chubflix Episode Unlock Rules
+ *
+ * Creators can gate the Next button behind conditions that must be met
+ * during the current episode: a number of exchanges, a phrase appearing
+ * in one of the bot's replies, or time spent in the episode. All declared
+ * conditions must be met; among keywords, any one of them is enough.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export type UnlockRules = {
+    minExchanges: number | null;
+    /** Phrases of which at least one must appear in a bot reply */
+    keywords: string[];
+    minMinutes: number | null;
+    /** Shown on the locked button instead of the keyword list, to avoid spoilers */
+    hint: string | null;
+};
+
+/** Progress towards the rules, kept in message state */
+export type UnlockProgress = {
+    exchanges: number;
+    keywordMatched: boolean;
+    episodeStartedAt: number;
+};
+
+export type UnlockRequirement =
+    | { type: 'exchanges'; remaining: number }
+    | { type: 'keyword'; keywords: string[]; hint: string | null }
+    | { type: 'time'; remainingMinutes: number };
+
+export type UnlockStatus = {
+    unlocked: boolean;
+    missing: UnlockRequirement[];
+};
+
+// ===== PROGRESS =====
+
+export function startProgress(now: number): UnlockProgress {
+    return { exchanges: 0, keywordMatched: false, episodeStartedAt: now };
+}
+
+export function hasRules(rules: UnlockRules | null): rules is UnlockRules {
+    return !!rules && (rules.minExchanges !== null || rules.keywords.length > 0 || rules.minMinutes !== null);
+}
+
+export function matchesKeyword(rules: UnlockRules | null, content: string): boolean {
+    if (!rules || rules.keywords.length === 0) return false;
+    const haystack = content.toLowerCase();
+    return rules.keywords.some(keyword => haystack.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Record a completed exchange (a bot reply) against the rules. Exchanges
+ * are counted per user turn: a reroll of the last reply isn't counted
+ * again, though its text can still match a keyword.
+ */
+export function recordExchange(rules: UnlockRules | null, progress: UnlockProgress, botContent: string, reroll: boolean = false): UnlockProgress {
+    return {
+        ...progress,
+        exchanges: progress.exchanges + (reroll ? 0 : 1),
+        keywordMatched: progress.keywordMatched || matchesKeyword(rules, botContent)
+    };
+}
+
+// ===== EVALUATION =====
+
+export function evaluateUnlock(rules: UnlockRules | null, progress: UnlockProgress, now: number): UnlockStatus {
+    if (!hasRules(rules)) {
+        return { unlocked: true, missing: [] };
+    }
+
+    const missing: UnlockRequirement[] = [];
+
+    if (rules.minExchanges !== null && progress.exchanges < rules.minExchanges) {
+        missing.push({ type: 'exchanges', remaining: rules.minExchanges - progress.exchanges });
+    }
+
+    if (rules.keywords.length > 0 && !progress.keywordMatched) {
+        missing.push({ type: 'keyword', keywords: rules.keywords, hint: rules.hint });
+    }
+
+    if (rules.minMinutes !== null) {
+        const elapsedMinutes = (now - progress.episodeStartedAt) / 60000;
+        if (elapsedMinutes < rules.minMinutes) {
+            missing.push({ type: 'time', remainingMinutes: Math.ceil(rules.minMinutes - elapsedMinutes) });
+        }
+    }
+
+    return { unlocked: missing.length === 0, missing };
+}
+
+/**
+ * Milliseconds until a time rule's remaining minutes next change, so a
+ * locked button can be refreshed then; null when no time rule is pending.
+ */
+export function nextTimeChange(rules: UnlockRules | null, progress: UnlockProgress, now: number): number | null {
+    if (!rules || rules.minMinutes === null) return null;
+    const remaining = rules.minMinutes * 60000 - (now - progress.episodeStartedAt);
+    if (remaining <= 0) return null;
+    return remaining % 60000 || 60000;
+}
@@ -0,0 +1,30 @@
+/**
+ * Chubflix Up Next
+ *
+ * Once an episode is finished, the panel teases the episode that follows
+ * it: its title and the opening of its greeting, with an optional
+ * countdown that plays it. A teaser never reaches further than the very
+ * next episode, so nothing past the furthest episode reached is shown.
+ */
+
+// ===== TYPE DEFINITIONS =====
+
+export type UpNext = {
+    index: number;
+    title: string;
+    opening: string | null;
+    /** Seconds before the episode plays on its own; 0 waits for the user */
+    countdown: number;
+};
+
+// ===== CONSTANTS =====
+
+// Longest countdown the config may ask for
+export const MAX_UP_NEXT_COUNTDOWN = 60;
+
+// ===== HELPERS =====
+
+/** The configured countdown in whole seconds, within 0 and the maximum */
+export function countdownSeconds(setting: number): number {
+    return Math.min(MAX_UP_NEXT_COUNTDOWN, Math.max(0, Math.floor(setting) || 0));
+}
@@ -16,6 +16,10 @@ export default defineConfig({
             },
         },
     },
+    // The headless scenario runner is built as one self-contained Node bundle
+    ssr: {
+        noExternal: true,
+    },
     server: {
         port: 5173,
         strictPort: true,